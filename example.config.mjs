@@ -1,8 +1,42 @@
 export default {
   apiKey: "your-google-gemini-api-key-here",
+  llm: {
+    provider: "google", // "google" | "openai" | "local"
+    model: "gemini-2.0-flash",
+    // baseURL: "http://localhost:11434/v1", // OpenAI-compatible gateway or local server
+    temperature: 0.3,
+    maxTokens: 4000,
+  },
+  generation: {
+    concurrency: 4, // requests in flight at once
+    requestsPerMinute: 60, // 0 disables rate limiting
+    maxRetries: 3, // retries on 429, 5xx and timeouts (exponential backoff)
+    timeoutMs: 120000, // per-request timeout
+    maxChunkTokens: 6000, // larger files are documented in parts and merged
+  },
+  redaction: {
+    patterns: ["CUST-\\d{6}"], // extra regexes masked before prompting
+  },
+  openapi: {
+    version: "1.0.0",
+    servers: ["https://api.example.com"],
+    // enabled: false, // skip openapi.json and the API Reference section
+  },
+  categories: [
+    {
+      name: "stores",
+      title: "State Stores",
+      description: "Client-side state stores.",
+      paths: ["src/stores/**"], // folders or globs, like include
+    },
+  ],
   projectName: "My Awesome Project",
   author: "Your Name",
-  include: ["src/components", "src/pages", "src/api", "src/lib"],
+  // framework: "next-app", // detected from package.json when omitted
+  include: ["src/components", "src/pages", "src/api", "src/lib", "src/stores"], // folders or globs
+  exclude: ["**/*.test.*", "**/*.spec.*", "**/*.stories.*"],
+  maxFileSizeKb: 200, // larger files are skipped
+  maxLineLength: 1000, // files with longer lines are treated as minified
   outputDir: "docs",
   useTranslation: true,
   lingoApiKey: "your-lingo-dev-api-key-here",
@@ -0,0 +1,345 @@
+import { writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import ora from "ora";
+import type { FileInfo } from "./fileRead.js";
+import type { LLMProvider } from "./llm.js";
+import { getCategoryTitle, getFallbackLabel } from "./fileUtils.js";
+import { renderFrontmatter, sanitizeContent } from "./contentProcessing.js";
+import { repairMdx } from "./mdx.js";
+
+// Past this many modules the dependency diagram groups them by category
+const MAX_MODULE_NODES = 40;
+// Larger diagrams stop being readable, the rest is left out
+const MAX_TREE_NODES = 60;
+
+// Starlight renders fenced mermaid blocks as code, so the diagrams are
+// <pre class="mermaid"> elements rendered in the browser
+export const MERMAID_HEAD = [
+  {
+    tag: "script",
+    attrs: { type: "module" },
+    content: `import mermaid from "https://cdn.jsdelivr.net/npm/mermaid@11/dist/mermaid.esm.min.mjs";
+mermaid.initialize({ startOnLoad: true, theme: document.documentElement.dataset.theme === "dark" ? "dark" : "default" });`,
+  },
+];
+
+interface Diagram {
+  title: string;
+  // What the diagram shows, for the model and as the fallback narrative
+  description: string;
+  source: string;
+  // Set when nodes were left out to keep the diagram readable
+  truncated?: boolean;
+}
+
+/**
+ * Write the architecture page: a module dependency diagram, the components
+ * each page renders and a map of the API routes, each with a short narrative
+ */
+export async function generateArchitecture(
+  files: FileInfo[],
+  config: any,
+  tempDir: string,
+  provider: LLMProvider | undefined
+): Promise<void> {
+  const spinner = ora("Generating architecture page...").start();
+
+  // API files are split into one entry per endpoint; the graph is per file
+  const modules = [
+    ...new Map(files.map((file) => [file.relativePath, file])).values(),
+  ];
+  const diagrams = [
+    renderModuleDiagram(modules),
+    renderPageTree(modules),
+    renderRouteMap(files),
+  ].filter((diagram): diagram is Diagram => diagram !== undefined);
+
+  const narratives = await Promise.all(
+    diagrams.map((diagram) => describeDiagram(diagram, config, provider))
+  );
+
+  let content = `${renderFrontmatter({
+    title: "Architecture",
+    description: `How the parts of ${config.projectName} fit together`,
+  })}# Architecture
+
+Diagrams of ${config.projectName} built from the imports and routes in the source.
+`;
+  diagrams.forEach((diagram, index) => {
+    content += `\n## ${diagram.title}\n\n${narratives[index]}\n\n`;
+    content += `<pre class="mermaid">\n${escapeHtml(diagram.source)}</pre>\n`;
+    if (diagram.truncated) {
+      content += `\nSome nodes were left out to keep the diagram readable.\n`;
+    }
+  });
+
+  const architectureDir = join(tempDir, "content", "docs", "architecture");
+  await mkdir(architectureDir, { recursive: true });
+  await writeFile(join(architectureDir, "index.md"), content, "utf-8");
+  spinner.succeed(
+    `Architecture page generated (${diagrams.length} ${
+      diagrams.length === 1 ? "diagram" : "diagrams"
+    })`
+  );
+}
+
+async function describeDiagram(
+  diagram: Diagram,
+  config: any,
+  provider: LLMProvider | undefined
+): Promise<string> {
+  if (!provider) return diagram.description;
+
+  try {
+    const text = await provider.generate({
+      prompt: `You are documenting the architecture of ${config.projectName}. Below is a Mermaid diagram titled "${diagram.title}", which ${diagram.description.charAt(0).toLowerCase()}${diagram.description.slice(1)}
+
+Write a short narrative (2 to 4 sentences) for developers new to the project: explain what the diagram says about how the code is organized, and point out the central or most connected parts. Reply with plain markdown text only, without headings, lists or code blocks.
+
+Diagram:
+${diagram.source}`,
+      maxTokens: 300,
+      temperature: 0.3,
+      context: {
+        task: "architecture",
+        file: getDiagramFile(diagram),
+        category: "architecture",
+      },
+    });
+    // Checked like the other pages before it is written
+    return repairMdx(sanitizeContent(text).trim()) || diagram.description;
+  } catch (error) {
+    return diagram.description;
+  }
+}
+
+// Narratives are cached like file pages, keyed by the diagram source
+function getDiagramFile(diagram: Diagram): FileInfo {
+  const slug = diagram.title.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+  return {
+    path: `architecture/${slug}`,
+    content: diagram.source,
+    category: "architecture",
+    relativePath: `architecture/${slug}`,
+    fileName: slug,
+    extension: "mmd",
+  };
+}
+
+// Modules linked by imports, grouped by category, or the categories alone
+// when there are too many modules
+function renderModuleDiagram(modules: FileInfo[]): Diagram {
+  const byPath = new Map(modules.map((file) => [file.relativePath, file]));
+  const edges = modules.flatMap((file) =>
+    (file.dependencies || [])
+      .filter((dependency) => byPath.has(dependency.relativePath))
+      .map((dependency) => [file, byPath.get(dependency.relativePath)!])
+  );
+  const linked = new Set(edges.flat());
+
+  if (linked.size > 0 && linked.size <= MAX_MODULE_NODES) {
+    const ids = new NodeIds();
+    let source = "flowchart LR\n";
+    for (const category of new Set([...linked].map((file) => file.category))) {
+      source += `  subgraph ${ids.get(`category:${category}`)}[${quote(getCategoryTitle(category))}]\n`;
+      for (const file of [...linked].filter(
+        (file) => file.category === category
+      )) {
+        source += `    ${ids.get(file.relativePath)}[${quote(getModuleLabel(file))}]\n`;
+      }
+      source += `  end\n`;
+    }
+    for (const [from, to] of edges) {
+      source += `  ${ids.get(from.relativePath)} --> ${ids.get(to.relativePath)}\n`;
+    }
+    return {
+      title: "Module Dependencies",
+      description:
+        "Shows the modules that import each other, grouped by category. Arrows point from a module to the modules it imports.",
+      source,
+    };
+  }
+
+  // Imports between categories, counted
+  const ids = new NodeIds();
+  const counts = new Map<string, number>();
+  for (const [from, to] of edges) {
+    if (from.category === to.category) continue;
+    const key = `${from.category}\n${to.category}`;
+    counts.set(key, (counts.get(key) || 0) + 1);
+  }
+  let source = "flowchart LR\n";
+  for (const category of new Set(modules.map((file) => file.category))) {
+    const count = modules.filter((file) => file.category === category).length;
+    source += `  ${ids.get(category)}[${quote(
+      `${getCategoryTitle(category)} (${count})`
+    )}]\n`;
+  }
+  for (const [key, count] of counts) {
+    const [from, to] = key.split("\n");
+    source += `  ${ids.get(from)} -->|${count}| ${ids.get(to)}\n`;
+  }
+  return {
+    title: "Module Dependencies",
+    description:
+      "Shows the categories of the codebase with their number of modules. Arrows point to the categories a category imports from, labelled with the number of imports.",
+    source,
+  };
+}
+
+// Pages and the components they render, following components that render
+// other components
+function renderPageTree(modules: FileInfo[]): Diagram | undefined {
+  const byPath = new Map(modules.map((file) => [file.relativePath, file]));
+  const getComponents = (file: FileInfo) =>
+    (file.dependencies || [])
+      .map((dependency) => byPath.get(dependency.relativePath))
+      .filter(
+        (target): target is FileInfo => target?.category === "components"
+      );
+
+  const ids = new NodeIds();
+  const edges = new Set<string>();
+  let source = "flowchart LR\n";
+  let truncated = false;
+
+  for (const page of modules.filter((file) => file.category === "pages")) {
+    if (getComponents(page).length === 0) continue;
+    if (ids.size >= MAX_TREE_NODES) {
+      truncated = true;
+      break;
+    }
+
+    source += `  ${ids.get(page.relativePath)}[${quote(getModuleLabel(page))}]\n`;
+    const queue = [page];
+    while (queue.length > 0) {
+      const parent = queue.shift()!;
+      for (const component of getComponents(parent)) {
+        const edge = `${parent.relativePath}\n${component.relativePath}`;
+        if (edges.has(edge)) continue;
+        if (!ids.has(component.relativePath)) {
+          if (ids.size >= MAX_TREE_NODES) {
+            truncated = true;
+            continue;
+          }
+          source += `  ${ids.get(component.relativePath)}([${quote(
+            getModuleLabel(component)
+          )}])\n`;
+          queue.push(component);
+        }
+        edges.add(edge);
+        source += `  ${ids.get(parent.relativePath)} --> ${ids.get(component.relativePath)}\n`;
+      }
+    }
+  }
+
+  if (edges.size === 0) return undefined;
+  return {
+    title: "Pages and Components",
+    description:
+      "Shows the components each page renders, including the components those components render in turn. Pages are drawn as rectangles and components as rounded boxes.",
+    source,
+    truncated,
+  };
+}
+
+// Route segments as a tree, with the methods of each endpoint and the
+// middleware running in front of it
+function renderRouteMap(files: FileInfo[]): Diagram | undefined {
+  const methods = new Map<string, Set<string>>();
+  for (const file of files) {
+    if (file.category !== "api" || !file.route) continue;
+    const routeMethods = methods.get(file.route) || new Set<string>();
+    for (const method of file.httpMethods || []) routeMethods.add(method);
+    methods.set(file.route, routeMethods);
+  }
+  if (methods.size === 0) return undefined;
+
+  const ids = new NodeIds();
+  let source = `flowchart LR\n  ${ids.get("/")}[${quote("/")}]\n`;
+  let truncated = false;
+
+  for (const route of [...methods.keys()].sort()) {
+    const segments = route.split("/").filter(Boolean);
+    let parent = "/";
+    for (const [index, segment] of segments.entries()) {
+      const path = `/${segments.slice(0, index + 1).join("/")}`;
+      if (!ids.has(path)) {
+        if (ids.size >= MAX_TREE_NODES) {
+          truncated = true;
+          break;
+        }
+        const routeMethods = [...(methods.get(path) || [])];
+        const label =
+          routeMethods.length > 0
+            ? `${segment}<br/>${routeMethods.join(", ")}`
+            : segment;
+        source += `  ${ids.get(path)}[${quote(label)}]\n`;
+        source += `  ${ids.get(parent)} --> ${ids.get(path)}\n`;
+      }
+      parent = path;
+    }
+  }
+
+  // "GET /api/users" and "/api/users" both point at the route's node
+  let hasMiddleware = false;
+  for (const file of files.filter((file) => file.category === "middleware")) {
+    const routes = new Set(
+      (file.appliesTo || [])
+        .map((route) => route.replace(/^[A-Z]+\s+/, ""))
+        .filter((route) => methods.has(route) && ids.has(route))
+    );
+    if (routes.size === 0) continue;
+
+    hasMiddleware = true;
+    const id = ids.get(file.relativePath);
+    source += `  ${id}{{${quote(getModuleLabel(file))}}}\n`;
+    for (const route of routes) source += `  ${id} -.-> ${ids.get(route)}\n`;
+  }
+
+  return {
+    title: "API Routes",
+    description: `Maps the API routes by path segment, with the HTTP methods each endpoint accepts.${
+      hasMiddleware
+        ? " Middleware is drawn as hexagons, with dotted arrows to the routes it runs for."
+        : ""
+    }`,
+    source,
+    truncated,
+  };
+}
+
+// Mermaid node ids must be plain identifiers; names and paths become n0, n1...
+class NodeIds {
+  private ids = new Map<string, string>();
+
+  get size(): number {
+    return this.ids.size;
+  }
+
+  has(key: string): boolean {
+    return this.ids.has(key);
+  }
+
+  get(key: string): string {
+    if (!this.ids.has(key)) this.ids.set(key, `n${this.ids.size}`);
+    return this.ids.get(key)!;
+  }
+}
+
+function getModuleLabel(file: FileInfo): string {
+  if (file.category === "pages") return getFallbackLabel(file, file.category);
+  return file.fileName.replace(/(\.d)?\.[^/.]+$/, "");
+}
+
+// Quoted labels may hold any character but the quote itself
+function quote(label: string): string {
+  return `"${label.replace(/"/g, "#quot;")}"`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
@@ -1,4 +1,12 @@
-import { writeFile, copyFile, mkdir, rm, readdir, stat } from "fs/promises";
+import {
+  writeFile,
+  readFile,
+  copyFile,
+  mkdir,
+  rm,
+  readdir,
+  stat,
+} from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
 import { execSync } from "child_process";
@@ -7,12 +15,38 @@ import ora from "ora";
 import type { FileInfo } from "./fileRead.js";
 import {
   getCategoryTitle,
+  getCategoryDescription,
   getActionFromRoute,
   getUniqueFileName,
+  getFallbackLabel,
 } from "./fileUtils.js";
-import { getRouteFromPath } from "./contentProcessing.js";
-import { google } from "@ai-sdk/google";
-import { generateText } from "ai";
+import {
+  getFileDescription,
+  getRouteFromPath,
+  getSidebarBadge,
+  renderFrontmatter,
+} from "./contentProcessing.js";
+import type { LLMProvider } from "./llm.js";
+import { MERMAID_HEAD } from "./architecture.js";
+
+// Starlight drops frontmatter keys its schema does not know, so the fields
+// added to file pages (see addFrontmatter) are declared here
+const CONTENT_CONFIG = `import { defineCollection, z } from 'astro:content';
+import { docsLoader } from '@astrojs/starlight/loaders';
+import { docsSchema } from '@astrojs/starlight/schema';
+
+export const collections = {
+  docs: defineCollection({
+    loader: docsLoader(),
+    schema: docsSchema({
+      extend: z.object({
+        sourcePath: z.string().optional(),
+        tags: z.array(z.string()).optional(),
+      }),
+    }),
+  }),
+};
+`;
 
 export async function createAstroProject(
   outputDir: string,
@@ -63,11 +97,18 @@ export async function createAstroProject(
 export async function generateAstroConfig(
   grouped: Record<string, FileInfo[]>,
   config: any,
-  tempDir: string
+  tempDir: string,
+  provider: LLMProvider | undefined,
+  reusedLabels: Map<string, string> = new Map(),
+  // Extra sidebar groups after the categories, e.g. the API Reference
+  extraGroups: any[] = []
 ): Promise<void> {
   const configSpinner = ora("Generating Astro configuration...").start();
 
-  const sidebarConfig = await generateSidebarConfigWithAI(grouped);
+  const sidebarConfig = [
+    ...(await generateSidebarConfigWithAI(grouped, provider, reusedLabels)),
+    ...extraGroups,
+  ];
 
   // Configure internationalization if translation is enabled
   const i18nConfig =
@@ -99,6 +140,7 @@ export default defineConfig({
       title: '${config.projectName}',
       description: '${config.description || "Project documentation"}',
       favicon: '/favicon.svg',
+      head: ${JSON.stringify(MERMAID_HEAD)},
       sidebar: ${JSON.stringify(sidebarConfig, null, 2)},${i18nConfig}
     }),
   ],
@@ -109,6 +151,7 @@ export default defineConfig({
 `;
 
   await writeFile(join(tempDir, "astro.config.mjs"), astroConfig, "utf-8");
+  await writeFile(join(tempDir, "content.config.ts"), CONTENT_CONFIG, "utf-8");
   configSpinner.succeed("Astro configuration generated");
 }
 
@@ -153,35 +196,10 @@ function getLanguageLabel(langCode: string): string {
   return languageLabels[langCode] || langCode.toUpperCase();
 }
 
-/**
- * Check if a directory contains language subdirectories
- */
-async function checkForLanguageDirectories(dir: string): Promise<boolean> {
-  try {
-    const { readdir, stat } = await import("fs/promises");
-    const items = await readdir(dir);
-
-    for (const item of items) {
-      const itemPath = join(dir, item);
-      const stats = await stat(itemPath);
-
-      if (stats.isDirectory()) {
-        // Check if this looks like a language directory (2-3 letter codes)
-        if (/^[a-z]{2,3}$/.test(item)) {
-          return true;
-        }
-      }
-    }
-
-    return false;
-  } catch (error) {
-    console.error(`Error checking for language directories in ${dir}:`, error);
-    return false;
-  }
-}
-
 export async function generateSidebarConfigWithAI(
-  grouped: Record<string, FileInfo[]>
+  grouped: Record<string, FileInfo[]>,
+  provider: LLMProvider | undefined,
+  reusedLabels: Map<string, string> = new Map()
 ): Promise<any[]> {
   const sidebar: any[] = [];
 
@@ -193,6 +211,10 @@ export async function generateSidebarConfigWithAI(
         label: "Introduction",
         link: "/getting-started/",
       },
+      {
+        label: "Architecture",
+        link: "/architecture/",
+      },
     ],
   });
 
@@ -203,10 +225,20 @@ export async function generateSidebarConfigWithAI(
     const categoryItems = await Promise.all(
       files.map(async (file) => {
         const actualFileName = getUniqueFileName(file, category).replace(
-          /\.md$/,
+          /\.mdx$/,
           ""
         );
-        let label = file.fileName.replace(/\.[^/.]+$/, "");
+        const slug = `${category}/${actualFileName}`;
+        const reusedLabel = reusedLabels.get(slug);
+        if (reusedLabel) {
+          return { label: reusedLabel, slug };
+        }
+        // Endpoints with a known route are labelled "GET /api/tasks" as is
+        if (!provider || (category === "api" && file.route)) {
+          return { label: getFallbackLabel(file, category), slug };
+        }
+
+        let label: string;
         try {
           // Use up to 20 lines of file content for context
           const snippet = file.content.split("\n").slice(0, 20).join("\n");
@@ -216,61 +248,125 @@ export async function generateSidebarConfigWithAI(
           } else {
             prompt = `Given the following file path and code, generate a short, human-friendly label for a documentation sidebar. Do not use any sort of bold, italic, or other formatting. File path: ${file.relativePath}\nCode:\n\n${snippet}\n\nLabel:`;
           }
-          const result = await generateText({
-            model: google("gemini-2.0-flash"),
+          const text = await provider.generate({
             prompt,
             maxTokens: 30,
             temperature: 0.2,
+            context: { task: "label", file, category },
           });
-          label = result.text.trim().replace(/^"|"$/g, "");
+          label = text.trim().replace(/^"|"$/g, "");
         } catch (e) {
           // fallback: clean up file/route name
-          if (category === "api" || category === "pages") {
-            let route = getRouteFromPath(file.relativePath);
-            if (route.startsWith("/app/")) route = route.replace(/^\/app/, "");
-            if (route.endsWith("/route")) route = route.replace(/\/route$/, "");
-            label = route;
-          }
+          label = getFallbackLabel(file, category);
         }
-        return {
-          label,
-          slug: `${category}/${actualFileName}`,
-        };
+        return { label, slug };
       })
     );
     sidebar.push({
       label: categoryTitle,
-      items: categoryItems,
+      // Explicit sidebar entries do not read the badge from frontmatter
+      items: categoryItems.map((item, index) => {
+        const badge = getSidebarBadge(files[index]);
+        return badge ? { ...item, badge } : item;
+      }),
     });
   }
   return sidebar;
 }
 
-// Cross-platform directory copy function
-async function copyDirectory(
+/**
+ * Read the sidebar labels (keyed by slug) from a previously generated
+ * astro.config.mjs, so incremental runs do not relabel unchanged pages
+ */
+export async function readSidebarLabels(
+  outputDir: string
+): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  const astroConfigPath = join(outputDir, "astro.config.mjs");
+
+  if (!existsSync(astroConfigPath)) {
+    return labels;
+  }
+
+  try {
+    const astroConfig = await readFile(astroConfigPath, "utf-8");
+    // The sidebar is written with JSON.stringify, so it parses back as JSON
+    const match = astroConfig.match(/sidebar: (\[\n[\s\S]*?\n\]),/);
+    if (!match) return labels;
+
+    const collect = (items: any[]) => {
+      for (const item of items) {
+        if (item.slug && item.label) labels.set(item.slug, item.label);
+        if (Array.isArray(item.items)) collect(item.items);
+      }
+    };
+    collect(JSON.parse(match[1]));
+  } catch (error) {
+    // Unreadable config: labels are simply regenerated
+  }
+
+  return labels;
+}
+
+interface SyncStats {
+  written: number;
+  unchanged: number;
+  removed: number;
+}
+
+/**
+ * Mirror source into destination: copy new or changed files, leave identical
+ * files untouched and delete anything that is not in the source
+ */
+async function syncDirectory(
   source: string,
-  destination: string
-): Promise<void> {
-  // Create destination directory if it doesn't exist
+  destination: string,
+  stats: SyncStats = { written: 0, unchanged: 0, removed: 0 }
+): Promise<SyncStats> {
   await mkdir(destination, { recursive: true });
 
-  // Read all items in the source directory
   const items = await readdir(source);
+  const sourceItems = new Set(items);
 
   for (const item of items) {
     const sourcePath = join(source, item);
     const destPath = join(destination, item);
+    const sourceStats = await stat(sourcePath);
 
-    const stats = await stat(sourcePath);
+    if (sourceStats.isDirectory()) {
+      if (existsSync(destPath) && !(await stat(destPath)).isDirectory()) {
+        await rm(destPath, { force: true });
+      }
+      await syncDirectory(sourcePath, destPath, stats);
+      continue;
+    }
 
-    if (stats.isDirectory()) {
-      // Recursively copy subdirectories
-      await copyDirectory(sourcePath, destPath);
-    } else {
-      // Copy files
-      await copyFile(sourcePath, destPath);
+    if (existsSync(destPath)) {
+      const destStats = await stat(destPath);
+      if (destStats.isDirectory()) {
+        await rm(destPath, { recursive: true, force: true });
+      } else if (
+        destStats.size === sourceStats.size &&
+        (await readFile(sourcePath)).equals(await readFile(destPath))
+      ) {
+        stats.unchanged++;
+        continue;
+      }
     }
+
+    await copyFile(sourcePath, destPath);
+    stats.written++;
   }
+
+  // Remove orphaned pages from previous runs
+  for (const item of await readdir(destination)) {
+    if (!sourceItems.has(item)) {
+      await rm(join(destination, item), { recursive: true, force: true });
+      stats.removed++;
+    }
+  }
+
+  return stats;
 }
 
 export async function moveContentToAstroProject(
@@ -300,56 +396,40 @@ export async function moveContentToAstroProject(
       process.exit(1);
     }
 
-    // Delete existing content directory if it exists
-    if (existsSync(targetContentDir)) {
-      moveSpinner.text = "Removing existing content directory...";
-      await rm(targetContentDir, { recursive: true, force: true });
-    }
-
-    // Ensure the target directory exists
-    await mkdir(targetContentDir, { recursive: true });
-
-    // Copy docs from temp directory to target using Node.js APIs
-    moveSpinner.text = "Copying generated docs...";
-
-    // Check if we have language subdirectories (translation enabled)
+    // Sync docs into the target, only touching pages that actually changed
+    // and removing pages whose source no longer exists
+    moveSpinner.text = "Syncing generated docs...";
     const docsSourceDir = join(sourceContentDir, "docs");
-    const hasLanguageDirs = await checkForLanguageDirectories(docsSourceDir);
-
-    if (hasLanguageDirs) {
-      // Copy each language directory
-      const { readdir, stat } = await import("fs/promises");
-      const items = await readdir(docsSourceDir);
-
-      for (const item of items) {
-        const sourceItemPath = join(docsSourceDir, item);
-        const targetItemPath = join(targetContentDir, item);
-
-        // Check if it's a directory before copying
-        const stats = await stat(sourceItemPath);
-        if (stats.isDirectory()) {
-          await copyDirectory(sourceItemPath, targetItemPath);
-        } else if (stats.isFile()) {
-          // Copy individual files (like index.mdx) directly
-          await copyFile(sourceItemPath, targetItemPath);
-        }
-      }
-    } else {
-      // Copy docs directly (no translation)
-      await copyDirectory(docsSourceDir, targetContentDir);
-    }
+    const stats = await syncDirectory(docsSourceDir, targetContentDir);
 
     // Copy Astro config
     moveSpinner.text = "Copying Astro configuration...";
     const sourceConfig = join(tempDir, "astro.config.mjs");
     const targetConfig = join(outputDir, "astro.config.mjs");
     await copyFile(sourceConfig, targetConfig);
+    await copyFile(
+      join(tempDir, "content.config.ts"),
+      join(outputDir, "src", "content.config.ts")
+    );
+
+    // Static files such as openapi.json; the template's own assets stay
+    const sourcePublic = join(tempDir, "public");
+    if (existsSync(sourcePublic)) {
+      moveSpinner.text = "Copying static files...";
+      const targetPublic = join(outputDir, "public");
+      await mkdir(targetPublic, { recursive: true });
+      for (const item of await readdir(sourcePublic)) {
+        await copyFile(join(sourcePublic, item), join(targetPublic, item));
+      }
+    }
 
     // Clean up temp directory
     moveSpinner.text = "Cleaning up temporary files...";
     await rm(tempDir, { recursive: true, force: true });
 
-    moveSpinner.succeed("Content moved successfully");
+    moveSpinner.succeed(
+      `Content moved successfully (${stats.written} updated, ${stats.unchanged} unchanged, ${stats.removed} removed)`
+    );
   } catch (error) {
     moveSpinner.fail("Failed to move content");
     console.error(chalk.red(error));
@@ -369,12 +449,11 @@ export async function generateCategoryIndexes(
     const categoryTitle = getCategoryTitle(category);
     const categoryDescription = getCategoryDescription(category);
 
-    let content = `---
-title: ${categoryTitle}
-description: ${categoryDescription}
----
-
-# ${categoryTitle}
+    let content = `${renderFrontmatter({
+      title: categoryTitle,
+      description: categoryDescription,
+      sidebar: { order: 0 },
+    })}# ${categoryTitle}
 
 ${categoryDescription}
 
@@ -384,9 +463,8 @@ ${categoryDescription}
 
     // Add links to each file
     for (const file of files) {
-      const fileName = file.fileName.replace(/\.[^/.]+$/, "");
-      const filePath = `./${fileName}`;
-      content += `- [${fileName}](${filePath}) - ${getFileDescription(
+      const slug = getUniqueFileName(file, category).replace(/\.mdx$/, "");
+      content += `- [${getFallbackLabel(file, category)}](./${slug}) - ${getFileDescription(
         file,
         category
       )}\n`;
@@ -406,31 +484,3 @@ This section contains documentation for all ${category} files in the project. Ea
 
   indexSpinner.succeed("Category indexes generated");
 }
-
-function getCategoryDescription(category: string): string {
-  const descriptions = {
-    components: "Reusable UI components used throughout the application.",
-    pages: "Page components and routing logic.",
-    api: "API endpoints and server-side logic.",
-    lib: "Utility functions, helpers, and shared libraries.",
-  };
-
-  return descriptions[category as keyof typeof descriptions] || "";
-}
-
-function getFileDescription(file: FileInfo, category: string): string {
-  const baseName = file.fileName.replace(/\.[^/.]+$/, "");
-
-  switch (category) {
-    case "components":
-      return `${baseName} component - A reusable UI component`;
-    case "pages":
-      return `${baseName} page - Application page component`;
-    case "api":
-      return `${baseName} API endpoint - Server-side API route`;
-    case "lib":
-      return `${baseName} utility - Helper functions and utilities`;
-    default:
-      return `Documentation for ${baseName}`;
-  }
-}
@@ -0,0 +1,198 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
+import { join, dirname } from "path";
+import { createHash } from "crypto";
+import type { FileInfo } from "./fileRead.js";
+import type { LLMProvider, GenerateRequest } from "./llm.js";
+import { PROMPT_VERSION } from "./prompts.js";
+
+export const CACHE_DIR = ".zen-doc";
+export const CACHE_FILE = join(CACHE_DIR, "cache.json");
+
+// Bump when the on-disk cache layout changes
+const CACHE_FORMAT = 1;
+
+interface CacheEntry {
+  relativePath: string;
+  task: string;
+  text: string;
+  updatedAt: string;
+}
+
+interface CacheData {
+  format: number;
+  entries: Record<string, CacheEntry>;
+}
+
+/**
+ * Persistent cache of model output, keyed by file content hash, prompt and
+ * model so unchanged files are never sent to the model twice
+ */
+export class DocCache {
+  private data: CacheData;
+  private dirty = false;
+  // Files and tasks answered from the cache during this run
+  private served = new Set<string>();
+  hits = 0;
+  misses = 0;
+
+  private constructor(
+    private cachePath: string,
+    data: CacheData
+  ) {
+    this.data = data;
+  }
+
+  static async load(cachePath: string = CACHE_FILE): Promise<DocCache> {
+    const empty: CacheData = { format: CACHE_FORMAT, entries: {} };
+
+    if (!existsSync(cachePath)) {
+      return new DocCache(cachePath, empty);
+    }
+
+    try {
+      const data = JSON.parse(await readFile(cachePath, "utf-8"));
+      if (data?.format !== CACHE_FORMAT || !data.entries) {
+        return new DocCache(cachePath, empty);
+      }
+      return new DocCache(cachePath, data);
+    } catch (error) {
+      // A corrupt cache only costs a full regeneration
+      return new DocCache(cachePath, empty);
+    }
+  }
+
+  static getKey(
+    file: FileInfo,
+    task: string,
+    category: string,
+    model: string,
+    prompt: string
+  ): string {
+    const contentHash = createHash("sha256").update(file.content).digest("hex");
+    return createHash("sha256")
+      .update(
+        [
+          contentHash,
+          PROMPT_VERSION,
+          model,
+          task,
+          category,
+          file.relativePath,
+          // The final prompt covers the category template, project settings,
+          // the routes middleware applies to and imported signatures
+          createHash("sha256").update(prompt).digest("hex"),
+        ].join("\0")
+      )
+      .digest("hex");
+  }
+
+  get(key: string): string | undefined {
+    const entry = this.data.entries[key];
+    if (entry) {
+      this.hits++;
+      this.served.add(`${entry.relativePath}\0${entry.task}`);
+      return entry.text;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  wasServed(relativePath: string, task: string): boolean {
+    return this.served.has(`${relativePath}\0${task}`);
+  }
+
+  set(key: string, relativePath: string, task: string, text: string): void {
+    // Drop output for previous versions of the same file
+    for (const [existingKey, entry] of Object.entries(this.data.entries)) {
+      if (entry.relativePath === relativePath && entry.task === task) {
+        delete this.data.entries[existingKey];
+      }
+    }
+
+    this.data.entries[key] = {
+      relativePath,
+      task,
+      text,
+      updatedAt: new Date().toISOString(),
+    };
+    this.dirty = true;
+  }
+
+  async save(): Promise<void> {
+    if (!this.dirty) return;
+
+    await mkdir(dirname(this.cachePath), { recursive: true });
+    await writeFile(this.cachePath, JSON.stringify(this.data), "utf-8");
+    this.dirty = false;
+  }
+}
+
+/**
+ * Cache key for a provider request about a file
+ */
+export function getRequestCacheKey(
+  provider: LLMProvider,
+  context: NonNullable<GenerateRequest["context"]>,
+  prompt: string
+): string {
+  return DocCache.getKey(
+    context.file,
+    getCacheTask(context),
+    context.category,
+    `${provider.name}:${provider.model}`,
+    prompt
+  );
+}
+
+/**
+ * Whether this run answered a request about a file from the cache
+ */
+export function isServedFromCache(
+  cache: DocCache,
+  context: NonNullable<GenerateRequest["context"]>
+): boolean {
+  return cache.wasServed(context.file.relativePath, getCacheTask(context));
+}
+
+// Chunks of one file are cached separately; their line range identifies them.
+// Endpoints registered in the same file are told apart by method and path.
+function getCacheTask(context: NonNullable<GenerateRequest["context"]>) {
+  const { chunk, file } = context;
+  const task = chunk
+    ? `chunk:${chunk.index}/${chunk.total}:${chunk.startLine}-${chunk.endLine}`
+    : context.task;
+  return file.endpoint
+    ? `${task}:${file.endpoint.method} ${file.endpoint.path}`
+    : task;
+}
+
+/**
+ * Wrap a provider so requests about a file are answered from the cache when
+ * the file, prompt and model are unchanged
+ */
+export function createCachedProvider(
+  provider: LLMProvider,
+  cache: DocCache
+): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    async generate(request: GenerateRequest) {
+      const { context } = request;
+      if (!context) {
+        return provider.generate(request);
+      }
+
+      const key = getRequestCacheKey(provider, context, request.prompt);
+      const cached = cache.get(key);
+      if (cached !== undefined) {
+        return cached;
+      }
+
+      const text = await provider.generate(request);
+      cache.set(key, context.file.relativePath, getCacheTask(context), text);
+      return text;
+    },
+  };
+}
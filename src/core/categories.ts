@@ -0,0 +1,190 @@
+import { createPathMatcher } from "./pathPatterns.js";
+
+export interface CategoryDefinition {
+  // Used as the folder and URL segment of the category's pages
+  name: string;
+  title: string;
+  description: string;
+  // Starlight icon shown on the home page card
+  icon: string;
+  // Globs or folders relative to the project root, like `include`; a
+  // matching file gets this category before any framework or folder rule is
+  // applied
+  paths: string[];
+  // Requirements and output format for the category's pages, appended to the
+  // file and symbol context of the prompt
+  prompt?: string;
+  // Appended to page file names, e.g. "button-component.mdx"
+  suffix?: string;
+  // Categories that get no pages (config files, everything unmatched)
+  hidden?: boolean;
+}
+
+const BUILTIN_CATEGORIES: CategoryDefinition[] = [
+  {
+    name: "components",
+    title: "Components",
+    description: "Reusable UI components used throughout the application.",
+    icon: "puzzle",
+    paths: [],
+    suffix: "component",
+  },
+  {
+    name: "hooks",
+    title: "Hooks",
+    description: "Custom React hooks shared across components.",
+    icon: "seti:react",
+    paths: [],
+    suffix: "hook",
+  },
+  {
+    name: "pages",
+    title: "Pages",
+    description: "Page components and routing logic.",
+    icon: "document",
+    paths: [],
+    suffix: "page",
+  },
+  {
+    name: "api",
+    title: "API Routes",
+    description: "API endpoints and server-side logic.",
+    icon: "rocket",
+    paths: [],
+    suffix: "api",
+  },
+  {
+    name: "actions",
+    title: "Server Actions",
+    description: "Server functions called directly from forms and components.",
+    icon: "right-arrow",
+    paths: [],
+    suffix: "action",
+  },
+  {
+    name: "middleware",
+    title: "Middleware",
+    description: "Code that runs before requests reach pages and endpoints.",
+    icon: "seti:pipeline",
+    paths: [],
+    suffix: "middleware",
+  },
+  {
+    name: "types",
+    title: "Types",
+    description: "Shared interfaces, type aliases and enums.",
+    icon: "seti:typescript",
+    paths: [],
+    suffix: "types",
+  },
+  {
+    name: "lib",
+    title: "Libraries & Utilities",
+    description: "Utility functions, helpers, and shared libraries.",
+    icon: "setting",
+    paths: [],
+    suffix: "utility",
+  },
+  {
+    name: "config",
+    title: "Configuration",
+    description: "Configuration files.",
+    icon: "setting",
+    paths: [],
+    hidden: true,
+  },
+  {
+    name: "other",
+    title: "Other",
+    description: "Files that match no category.",
+    icon: "document",
+    paths: [],
+    hidden: true,
+  },
+];
+
+// Top-level pages generated next to the categories
+const RESERVED_NAMES = [
+  "getting-started",
+  "api-reference",
+  "architecture",
+  "index",
+];
+
+let categories: CategoryDefinition[] = BUILTIN_CATEGORIES;
+let matchers: [CategoryDefinition, (relativePath: string) => boolean][] = [];
+
+/**
+ * Register the `categories` from zen.config.mjs. An entry named like a
+ * built-in category overrides its fields; new names add a category.
+ */
+export function configureCategories(config: any): CategoryDefinition[] {
+  const resolved = BUILTIN_CATEGORIES.map((category) => ({ ...category }));
+
+  for (const entry of config.categories || []) {
+    if (!entry?.name || !/^[a-z0-9][a-z0-9-]*$/.test(entry.name)) {
+      throw new Error(
+        `Invalid category name "${entry?.name}". Use lowercase letters, digits and dashes.`
+      );
+    }
+    if (RESERVED_NAMES.includes(entry.name)) {
+      throw new Error(`Category name "${entry.name}" is reserved`);
+    }
+
+    const existing = resolved.find((category) => category.name === entry.name);
+    const paths = Array.isArray(entry.paths)
+      ? entry.paths
+      : entry.paths
+        ? [entry.paths]
+        : [];
+    if (existing) {
+      Object.assign(existing, { ...entry, paths });
+      continue;
+    }
+
+    resolved.push({
+      title: entry.name.replace(
+        /(^|-)(\w)/g,
+        (_: string, dash: string, char: string) =>
+          `${dash ? " " : ""}${char.toUpperCase()}`
+      ),
+      description: "",
+      icon: "document",
+      suffix: entry.name,
+      ...entry,
+      paths,
+    });
+  }
+
+  categories = resolved;
+  matchers = resolved
+    .filter((category) => category.paths.length > 0)
+    .map((category) => [category, createPathMatcher(category.paths)]);
+  return resolved;
+}
+
+/**
+ * All categories in sidebar order: built-ins first, then the configured ones
+ */
+export function getCategories(): CategoryDefinition[] {
+  return categories;
+}
+
+export function getCategory(name: string): CategoryDefinition | undefined {
+  return categories.find((category) => category.name === name);
+}
+
+/**
+ * Categories whose files get documentation pages
+ */
+export function isDocumentedCategory(name: string): boolean {
+  const category = getCategory(name);
+  return category !== undefined && !category.hidden;
+}
+
+/**
+ * Category claimed by a configured `paths` pattern, if any
+ */
+export function matchCategoryPath(relativePath: string): string | undefined {
+  return matchers.find(([, matches]) => matches(relativePath))?.[0].name;
+}
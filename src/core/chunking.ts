@@ -0,0 +1,196 @@
+import type { FileInfo } from "./fileRead.js";
+import type { LLMProvider } from "./llm.js";
+import { getChunkPrompt, getMergePrompt } from "./prompts.js";
+
+export interface SourceChunk {
+  // 1-based position and number of chunks in the file
+  index: number;
+  total: number;
+  content: string;
+  startLine: number;
+  endLine: number;
+  // Declarations that start inside the chunk
+  symbols: string[];
+}
+
+// Rough size of a token in characters, good enough to stay under the limit
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Maximum characters of source sent in one prompt, from `generation`
+ */
+export function resolveChunkSize(config: any): number {
+  const maxChunkTokens = config.generation?.maxChunkTokens ?? 6000;
+  return Math.max(500, maxChunkTokens) * CHARS_PER_TOKEN;
+}
+
+/**
+ * Split a file into chunks of at most `maxChars`, cutting between top-level
+ * declarations so each chunk holds whole functions, classes and types. Leading
+ * comments stay with the declaration they describe. Files that fit in one
+ * prompt come back as a single chunk.
+ */
+export function splitIntoChunks(
+  file: FileInfo,
+  maxChars: number
+): SourceChunk[] {
+  const { content } = file;
+  if (content.length <= maxChars) {
+    return [toChunk(file, 0, content.length)];
+  }
+
+  // Candidate cut points: after every top-level statement, else every line
+  const cuts: number[] = file.symbols?.statements.length
+    ? file.symbols.statements.map((statement) => statement.end)
+    : [...content.matchAll(/\n/g)].map((match) => match.index! + 1);
+  cuts.push(content.length);
+
+  const pieces: [number, number][] = [];
+  let start = 0;
+  for (const cut of cuts) {
+    if (cut <= start) continue;
+    pieces.push(...splitOversized(content, start, cut, maxChars));
+    start = cut;
+  }
+
+  // Greedily pack consecutive pieces into chunks
+  const ranges: [number, number][] = [];
+  for (const [pieceStart, pieceEnd] of pieces) {
+    const last = ranges[ranges.length - 1];
+    if (last && pieceEnd - last[0] <= maxChars) {
+      last[1] = pieceEnd;
+    } else {
+      ranges.push([pieceStart, pieceEnd]);
+    }
+  }
+
+  const chunks = ranges
+    .filter(([rangeStart, rangeEnd]) =>
+      content.slice(rangeStart, rangeEnd).trim()
+    )
+    .map(([rangeStart, rangeEnd]) => toChunk(file, rangeStart, rangeEnd));
+  chunks.forEach((chunk, i) => {
+    chunk.index = i + 1;
+    chunk.total = chunks.length;
+  });
+  return chunks;
+}
+
+/**
+ * Document each chunk separately, then ask the model to merge the parts into
+ * one page. If the merge fails the parts are stitched together locally.
+ */
+export async function generateChunkedDoc(
+  file: FileInfo,
+  category: string,
+  chunks: SourceChunk[],
+  config: any,
+  provider: LLMProvider
+): Promise<string> {
+  const parts = await Promise.all(
+    chunks.map((chunk) =>
+      provider.generate({
+        prompt: getChunkPrompt(category, file, chunk, config),
+        context: { task: "chunk", file, category, chunk },
+      })
+    )
+  );
+
+  try {
+    return await provider.generate({
+      prompt: getMergePrompt(category, file, chunks, parts, config),
+      context: { task: "doc", file, category },
+    });
+  } catch (error) {
+    return mergeChunkDocs(chunks, parts);
+  }
+}
+
+/**
+ * Stitch per-chunk docs into one page: one `##` section per chunk, with the
+ * chunk's own headings shifted below it
+ */
+export function mergeChunkDocs(chunks: SourceChunk[], parts: string[]): string {
+  return chunks
+    .map(
+      (chunk, i) =>
+        `## Lines ${chunk.startLine}-${chunk.endLine}\n\n${shiftHeadings(
+          parts[i].trim(),
+          3
+        )}\n`
+    )
+    .join("\n");
+}
+
+function toChunk(file: FileInfo, start: number, end: number): SourceChunk {
+  // Blank lines between declarations don't belong to either chunk; the
+  // indentation of a declaration cut in the middle does
+  const blankLines = /^(?:[ \t]*\r?\n)+/.exec(file.content.slice(start, end));
+  if (blankLines) start += blankLines[0].length;
+  const startLine = lineAt(file.content, start);
+  const endLine = lineAt(file.content, Math.max(start, end - 1));
+
+  return {
+    index: 1,
+    total: 1,
+    content: file.content.slice(start, end),
+    startLine,
+    endLine,
+    symbols: (file.symbols?.symbols || [])
+      .filter((symbol) => symbol.line >= startLine && symbol.line <= endLine)
+      .map((symbol) => symbol.name),
+  };
+}
+
+// A single declaration larger than a chunk is cut at line breaks
+function splitOversized(
+  content: string,
+  start: number,
+  end: number,
+  maxChars: number
+): [number, number][] {
+  const pieces: [number, number][] = [];
+
+  while (end - start > maxChars) {
+    const newline = content.lastIndexOf("\n", start + maxChars - 1);
+    const cut = newline > start ? newline + 1 : start + maxChars;
+    pieces.push([start, cut]);
+    start = cut;
+  }
+  pieces.push([start, end]);
+
+  return pieces;
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = 0; i < offset; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+// Move the top heading level of a markdown part to `level`, ignoring code
+function shiftHeadings(markdown: string, level: number): string {
+  const lines = markdown.split("\n");
+  let inFence = false;
+  let minLevel = 7;
+
+  for (const line of lines) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const match = !inFence && /^(#{1,6})\s/.exec(line);
+    if (match) minLevel = Math.min(minLevel, match[1].length);
+  }
+  if (minLevel === 7) return markdown;
+
+  inFence = false;
+  return lines
+    .map((line) => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      const match = !inFence && /^(#{1,6})(\s.*)$/.exec(line);
+      if (!match) return line;
+      const newLevel = Math.min(6, match[1].length - minLevel + level);
+      return `${"#".repeat(newLevel)}${match[2]}`;
+    })
+    .join("\n");
+}
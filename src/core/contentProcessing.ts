@@ -1,12 +1,50 @@
+import { stringify } from "yaml";
 import type { FileInfo } from "./fileRead.js";
+import { generateReferenceSections } from "./referenceGenerator.js";
+import { getCategory, isDocumentedCategory } from "./categories.js";
+import { generateHookSections } from "./reactHooks.js";
+import { generateActionSections } from "./serverActions.js";
+import { generateMiddlewareSections } from "./middleware.js";
+import { repairMdx } from "./mdx.js";
+import { getJSDocTag } from "./symbols.js";
+import { getFileHistory, hasFullHistory } from "./gitChanges.js";
+import type { FileHistory } from "./gitChanges.js";
+import { getFallbackLabel } from "./fileUtils.js";
+import { getBuildDate } from "../utils/buildDate.js";
+
+// Files first committed this recently get a "New" badge
+const NEW_FILE_DAYS = 30;
+
+export interface SidebarBadge {
+  text: string;
+  variant: "note" | "tip" | "caution" | "danger" | "success" | "default";
+}
+
+// Commit dates of the documented files, read once per run by
+// loadFileHistory before any page is written
+let fileHistory = new Map<string, FileHistory>();
+let fullHistory = false;
+
+/**
+ * Read the git history of the files about to be documented. Without it
+ * pages get the build date and no "New" badges.
+ */
+export async function loadFileHistory(files: FileInfo[]): Promise<void> {
+  [fileHistory, fullHistory] = await Promise.all([
+    getFileHistory(files.map((file) => file.relativePath)),
+    hasFullHistory(),
+  ]);
+}
 
 export function addFrontmatter(
   content: string,
   file: FileInfo,
   category: string,
-  config: any
+  config: any,
+  // Position of the page in its sidebar group
+  order?: number
 ): string {
-  const title = file.fileName.replace(/\.[^/.]+$/, "");
+  const title = getPageTitle(file);
   const description = getFileDescription(file, category);
 
   // Clean up content - remove markdown code block wrapper if present
@@ -18,7 +56,7 @@ export function addFrontmatter(
   }
 
   // Clean up problematic content that causes glitching
-  cleanContent = cleanContent
+  cleanContent = sanitizeContent(cleanContent)
     // Remove excessive equals signs and spaces
     .replace(/={50,}/g, "") // Remove lines with 50+ equals signs
     .replace(/\s{20,}/g, " ") // Replace 20+ spaces with single space
@@ -27,18 +65,103 @@ export function addFrontmatter(
     .replace(/^[=\-\*_]{10,}$/gm, "")
     // Clean up excessive dashes
     .replace(/-{10,}/g, "---")
-    // Remove any remaining problematic patterns
-    .replace(/[^\x20-\x7E\n\t]/g, "") // Remove non-printable characters
     .trim();
+  // Stray JSX, braces and unclosed fences break the site build
+  cleanContent = repairMdx(cleanContent);
+
+  const frontmatter = renderFrontmatter({
+    title,
+    description,
+    sidebar:
+      order !== undefined || getSidebarBadge(file)
+        ? { order, badge: getSidebarBadge(file) }
+        : undefined,
+    // Pages documenting a source file say which file and when it changed
+    ...(isDocumentedCategory(category)
+      ? {
+          lastUpdated: getLastUpdated(file),
+          sourcePath: file.relativePath,
+          tags: getPageTags(file, category),
+        }
+      : {}),
+  });
+
+  // Ends in a newline, so the sections appended later follow a blank line
+  return `${frontmatter}${cleanContent}\n`;
+}
+
+/**
+ * Frontmatter block for a page. Values are quoted by the YAML serializer, so
+ * titles and descriptions may hold colons, quotes and `#`.
+ */
+export function renderFrontmatter(data: Record<string, unknown>): string {
+  return `---\n${stringify(data, { lineWidth: 0 })}---\n\n`;
+}
+
+/**
+ * "Deprecated" when every export is marked @deprecated, "New" for files
+ * added recently or not committed yet
+ */
+export function getSidebarBadge(file: FileInfo): SidebarBadge | undefined {
+  const exported = (file.symbols?.symbols || []).filter(
+    (symbol) => symbol.exported
+  );
+  if (
+    exported.length > 0 &&
+    exported.every((symbol) => getJSDocTag(symbol, "deprecated"))
+  ) {
+    return { text: "Deprecated", variant: "caution" };
+  }
 
-  const frontmatter = `---
-title: ${title}
-description: ${description}
----
+  // Outside git and in shallow clones nothing counts as new
+  if (!fullHistory) return undefined;
+  const created = fileHistory.get(file.relativePath)?.created;
+  const age = created
+    ? getBuildDate().getTime() - new Date(created).getTime()
+    : 0;
+  // Files committed after a pinned build date (SOURCE_DATE_EPOCH) aren't new
+  return age >= 0 && age < NEW_FILE_DAYS * 24 * 60 * 60 * 1000
+    ? { text: "New", variant: "success" }
+    : undefined;
+}
 
-`;
+// Date of the latest commit to the file; uncommitted files are as new as
+// the build
+function getLastUpdated(file: FileInfo): Date {
+  const updated = fileHistory.get(file.relativePath)?.updated;
+  return updated ? new Date(updated) : getBuildDate();
+}
 
-  return frontmatter + cleanContent;
+function getPageTags(file: FileInfo, category: string): string[] {
+  const tags = [category, getLanguageFromExtension(file.extension)];
+  if (category === "api") tags.push(...(file.httpMethods || []));
+  if (getSidebarBadge(file)?.text === "Deprecated") tags.push("deprecated");
+  return [...new Set(tags)];
+}
+
+/**
+ * Remove control characters and broken Unicode that the model or the source
+ * may emit, and frontmatter the model adds on its own. Accented letters, CJK
+ * text, emoji and box-drawing characters are kept.
+ */
+export function sanitizeContent(content: string): string {
+  return (
+    content
+      .replace(/\r\n?/g, "\n")
+      // Line and paragraph separators end lines in some editors only
+      .replace(/[\u2028\u2029]/g, "\n")
+      // C0 and C1 control characters except tab and newline, the byte order
+      // mark and noncharacters
+      .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F-\x9F\uFEFF\uFFFE\uFFFF]/g, "")
+      // Halves of surrogate pairs without the other half
+      .replace(
+        /[\uD800-\uDBFF](?![\uDC00-\uDFFF])|(?<![\uD800-\uDBFF])[\uDC00-\uDFFF]/g,
+        ""
+      )
+      // A second frontmatter block would render as text
+      .replace(/^---\n(?:[\w-]+:.*\n)+---\n+/, "")
+      .normalize("NFC")
+  );
 }
 
 export function generateDocStructure(
@@ -47,7 +170,7 @@ export function generateDocStructure(
   prompt: string,
   config: any
 ): string {
-  const title = file.fileName.replace(/\.[^/.]+$/, "");
+  const title = getPageTitle(file);
   const language = getLanguageFromExtension(file.extension);
 
   let content = `# ${title}\n\n`;
@@ -58,17 +181,35 @@ export function generateDocStructure(
   // Add file description based on content
   content += generateFileDescription(file);
 
+  // Add route/endpoint details based on category
+  content += getCategorySections(category, file);
+
+  // Add reference docs for exported symbols, built from the AST
+  content += generateReferenceSections(file.symbols, language);
+
   // Add code block with syntax highlighting
   content += `## Source Code\n\n`;
-  content += `\`\`\`${language}\n${file.content}\n\`\`\`\n\n`;
-
-  // Add placeholder sections based on category
-  content += getCategorySections(category);
+  // The fence must be longer than any backtick run in the source
+  const fence = "`".repeat(
+    Math.max(
+      3,
+      ...(file.content.match(/`+/g) || []).map((run) => run.length + 1)
+    )
+  );
+  content += `${fence}${language}\n${file.content}\n${fence}\n`;
 
   return content;
 }
 
 export function generateFileDescription(file: FileInfo): string {
+  // Prefer the JSDoc of the main export, as parsed from the AST
+  const documented = file.symbols?.symbols.find(
+    (symbol) => symbol.exported && symbol.jsdoc?.description
+  );
+  if (documented) {
+    return `## Description\n\n${documented.jsdoc!.description}\n\n`;
+  }
+
   // Try to extract JSDoc comments
   const jsDocMatch = file.content.match(/\/\*\*[\s\S]*?\*\//);
   if (jsDocMatch) {
@@ -83,90 +224,67 @@ export function generateFileDescription(file: FileInfo): string {
     return `## Description\n\n${commentMatch[1]}\n\n`;
   }
 
-  return `## Description\n\n*Documentation will be generated here*\n\n`;
-}
-
-export function getCategorySections(category: string): string {
-  const sections = {
-    components: `
-## Props
-
-*Props documentation will be generated here*
-
-## Examples
-
-*Usage examples will be generated here*
-
-## Accessibility
-
-*Accessibility features will be documented here*
-
-## Dependencies
-
-*Dependencies will be listed here*
-`,
-    pages: `
-## Route Information
-
-*Route details will be documented here*
-
-## Data Flow
-
-*Data fetching and state management will be documented here*
-
-## User Interactions
-
-*User interactions will be documented here*
-
-## SEO
-
-*SEO considerations will be documented here*
-`,
-    api: `
-## Endpoint Information
-
-*Endpoint details will be documented here*
-
-## Request Format
-
-*Request parameters and body will be documented here*
-
-## Response Format
-
-*Response structure will be documented here*
-
-## Examples
-
-*Request/response examples will be generated here*
-
-## Error Handling
-
-*Error scenarios will be documented here*
-`,
-    lib: `
-## Function Signature
-
-*Function signature will be documented here*
-
-## Parameters
-
-*Parameters will be documented here*
-
-## Return Value
-
-*Return value will be documented here*
+  // Otherwise summarize what the file exports
+  const exports = file.symbols?.exports || [];
+  if (exports.length > 0) {
+    const names = exports.map((name) => `\`${name}\``).join(", ");
+    return `## Description\n\n\`${file.fileName}\` exports ${names}.\n\n`;
+  }
 
-## Examples
+  return "";
+}
 
-*Usage examples will be generated here*
+// Endpoint pages share their source file, so method and path name them.
+// Pages are named by their URL like in the sidebar, not "page" or "index".
+function getPageTitle(file: FileInfo): string {
+  if (file.endpoint) return `${file.endpoint.method} ${file.endpoint.path}`;
+  if (file.category === "pages") return getFallbackLabel(file, "pages");
+  return file.fileName.replace(/(\.d)?\.[^/.]+$/, "");
+}
 
-## Edge Cases
+export function getCategorySections(category: string, file: FileInfo): string {
+  if (category === "hooks") return generateHookSections(file);
+  if (category === "actions") return generateActionSections(file);
+  if (category === "middleware") return generateMiddlewareSections(file);
+  if (category !== "pages" && category !== "api") return "";
+
+  const route = getFileRoute(file);
+  let content =
+    category === "api"
+      ? `## Endpoint Information\n\n- **Method:** \`${getHttpMethodFromFile(
+          file
+        ).toUpperCase()}\`\n- **Route:** \`${route}\`\n`
+      : `## Route Information\n\n- **Route:** \`${route}\`\n`;
+
+  if (file.endpoint) {
+    const { endpoint } = file;
+    if (endpoint.handler) {
+      content += `- **Handler:** \`${endpoint.handler}\`\n`;
+    }
+    if (endpoint.middleware.length > 0) {
+      content += `- **Middleware:** ${endpoint.middleware
+        .map((name) => `\`${name}\``)
+        .join(" → ")}\n`;
+    }
+    content += `- **Source:** \`${file.relativePath}:${endpoint.line}\`\n`;
+  }
 
-*Edge cases and error handling will be documented here*
-`,
-  };
+  // Dynamic segments (:id) and catch-alls (*slug) become route parameters
+  const params = route
+    .split("/")
+    .filter((part) => part.startsWith(":") || part.startsWith("*"));
+  if (params.length > 0) {
+    content += `\n**Route Parameters:**\n`;
+    content += params
+      .map((param) =>
+        param.startsWith("*")
+          ? `- **${param.slice(1)}** (\`string[]\`, catch-all) - Remaining path segments\n`
+          : `- **${param.slice(1)}** (\`string\`, required) - Dynamic route segment\n`
+      )
+      .join("");
+  }
 
-  return sections[category as keyof typeof sections] || "";
+  return content + "\n";
 }
 
 function getLanguageFromExtension(extension: string): string {
@@ -185,26 +303,24 @@ function getLanguageFromExtension(extension: string): string {
   return languageMap[extension] || "text";
 }
 
+/**
+ * One-line summary of a file for its page and the category index. Pages and
+ * endpoints are described by their route, other files by their category.
+ */
 export function getFileDescription(file: FileInfo, category: string): string {
-  const baseName = file.fileName.replace(/\.[^/.]+$/, "");
+  if (category === "pages") return getPageDescription(file);
+  if (category === "api") return getApiDescription(file);
 
-  switch (category) {
-    case "components":
-      return `${baseName} component - A reusable UI component`;
-    case "pages":
-      return getPageDescription(file);
-    case "api":
-      return getApiDescription(file);
-    case "lib":
-      return `${baseName} utility - Helper functions and utilities`;
-    default:
-      return `Documentation for ${baseName}`;
-  }
+  const baseName = file.fileName.replace(/\.[^/.]+$/, "");
+  const description = getCategory(category)?.description;
+  return description
+    ? `${baseName} - ${description}`
+    : `Documentation for ${baseName}`;
 }
 
 export function getApiDescription(file: FileInfo): string {
   // Extract route from directory structure (Next.js file-based routing)
-  const routePath = getRouteFromPath(file.relativePath);
+  const routePath = getFileRoute(file);
   const httpMethod = getHttpMethodFromFile(file);
 
   if (routePath && httpMethod) {
@@ -239,7 +355,7 @@ export function getApiDescription(file: FileInfo): string {
         return `${method} ${routePath} - Create new ${resource}`;
       }
       if (
-        method === "PUT" &&
+        (method === "PUT" || method === "PATCH") &&
         parts.length === 3 &&
         (parts[2] === "[id]" || parts[2] === ":id")
       ) {
@@ -269,7 +385,7 @@ export function getApiDescription(file: FileInfo): string {
 
 export function getPageDescription(file: FileInfo): string {
   // Extract route from directory structure (Next.js file-based routing)
-  const routePath = getRouteFromPath(file.relativePath);
+  const routePath = getFileRoute(file);
 
   if (routePath) {
     // Try to extract description from comments
@@ -312,6 +428,14 @@ export function getPageDescription(file: FileInfo): string {
   return `${baseName} page - Application page component`;
 }
 
+/**
+ * Route of a page or endpoint: the framework's route when known, otherwise
+ * derived from the file path
+ */
+export function getFileRoute(file: FileInfo): string {
+  return file.route ?? getRouteFromPath(file.relativePath);
+}
+
 export function getRouteFromPath(relativePath: string): string {
   // Normalize path separators for cross-platform compatibility
   const normalizedPath = relativePath.replace(/[\/\\]/g, "/");
@@ -353,16 +477,31 @@ export function getRouteFromPath(relativePath: string): string {
   return "/" + routeParts.join("/");
 }
 
+// `export async function GET` and `export const POST = ...`
+const HANDLER_EXPORT =
+  /export\s+(?:async\s+)?(?:function|const|let|var)\s+(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)\b/i;
+
 export function getHttpMethodFromFile(file: FileInfo): string {
   // For Next.js App Router, the HTTP method is determined by the file name
   const fileName = file.fileName.toLowerCase();
 
+  // Methods resolved by the framework adapter
+  if (file.httpMethods?.length) {
+    return file.httpMethods[0].toLowerCase();
+  }
+
+  // Exported handlers found by the parser, e.g. `export async function GET`
+  const exportedMethod = file.symbols?.exports.find((name) =>
+    ["GET", "POST", "PUT", "DELETE", "PATCH", "HEAD", "OPTIONS"].includes(name)
+  );
+  if (exportedMethod) {
+    return exportedMethod.toLowerCase();
+  }
+
   // Check for Next.js App Router method files
   if (fileName === "route.ts" || fileName === "route.js") {
     // Look for HTTP method handlers in the file content
-    const methodMatch = file.content.match(
-      /export\s+(?:async\s+)?function\s+(GET|POST|PUT|DELETE|PATCH)/i
-    );
+    const methodMatch = file.content.match(HANDLER_EXPORT);
     if (methodMatch) {
       return methodMatch[1].toLowerCase();
     }
@@ -379,9 +518,7 @@ export function getHttpMethodFromFile(file: FileInfo): string {
   if (fileName.includes("patch.")) return "patch";
 
   // Check for method in file content (fallback)
-  const methodMatch = file.content.match(
-    /export\s+(?:async\s+)?function\s+(GET|POST|PUT|DELETE|PATCH)/i
-  );
+  const methodMatch = file.content.match(HANDLER_EXPORT);
   if (methodMatch) {
     return methodMatch[1].toLowerCase();
   }
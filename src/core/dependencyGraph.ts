@@ -0,0 +1,331 @@
+import { existsSync, readFileSync } from "fs";
+import { join, posix, relative } from "path";
+import { parse as parseJsonc } from "jsonc-parser";
+import type { ParseError } from "jsonc-parser";
+import type { FileInfo } from "./fileRead.js";
+import type { CodeSymbol } from "./symbols.js";
+import { getFallbackLabel, getPageHref } from "./fileUtils.js";
+
+export interface Dependency {
+  // Import specifier as written, e.g. "@/lib/auth" or "../types/user"
+  specifier: string;
+  relativePath: string;
+  // Imported names; "default" for default imports, "*" for namespace,
+  // require() and dynamic imports
+  names: string[];
+  // Exported symbols of the dependency the file imports
+  symbols: CodeSymbol[];
+}
+
+export interface PathAliases {
+  // Directory bare specifiers resolve from, relative to the project root
+  baseUrl?: string;
+  // tsconfig `paths` with targets relative to the project root,
+  // e.g. { "@/*": ["src/*"] }
+  paths: Record<string, string[]>;
+}
+
+const EXTENSIONS = [
+  "ts",
+  "tsx",
+  "mts",
+  "cts",
+  "d.ts",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+  "vue",
+  "svelte",
+  "astro",
+];
+
+// import x, { a, b as c } from "s"; export * from "s"; import type { T } from "s"
+const FROM_IMPORT =
+  /(?:^|[;\n])\s*(?:import|export)\s+(?:type\s+)?([\w$*\s{},]*?)\s*from\s*["']([^"'\n]+)["']/g;
+// import "./styles.css"
+const SIDE_EFFECT_IMPORT = /(?:^|[;\n])\s*import\s*["']([^"'\n]+)["']/g;
+// require("s"), import("s")
+const CALL_IMPORT = /\b(?:require|import)\s*\(\s*["']([^"'\n]+)["']\s*\)/g;
+
+/**
+ * Read `baseUrl` and `paths` from tsconfig.json (or jsconfig.json),
+ * following relative `extends`
+ */
+export function loadPathAliases(cwd: string = process.cwd()): PathAliases {
+  for (const name of ["tsconfig.json", "jsconfig.json"]) {
+    const configPath = join(cwd, name);
+    if (existsSync(configPath)) {
+      return readCompilerPaths(configPath, cwd, new Set());
+    }
+  }
+  return { paths: {} };
+}
+
+function readCompilerPaths(
+  configPath: string,
+  cwd: string,
+  seen: Set<string>
+): PathAliases {
+  if (seen.has(configPath)) return { paths: {} };
+  seen.add(configPath);
+
+  // tsconfig files allow comments and trailing commas
+  let config: any;
+  const errors: ParseError[] = [];
+  try {
+    config = parseJsonc(readFileSync(configPath, "utf-8"), errors, {
+      allowTrailingComma: true,
+    });
+  } catch (error) {
+    return { paths: {} };
+  }
+  // A broken tsconfig only costs the aliases
+  if (errors.length > 0 || !config) return { paths: {} };
+
+  const configDir = posix.dirname(configPath.replace(/\\/g, "/"));
+  const extended =
+    typeof config.extends === "string" && config.extends.startsWith(".")
+      ? readCompilerPaths(
+          join(
+            configDir,
+            config.extends.endsWith(".json")
+              ? config.extends
+              : `${config.extends}.json`
+          ),
+          cwd,
+          seen
+        )
+      : { paths: {} };
+
+  const options = config.compilerOptions || {};
+  const toRoot = (path: string) =>
+    relative(cwd, join(configDir, path)).replace(/\\/g, "/");
+  const baseUrl =
+    options.baseUrl !== undefined ? toRoot(options.baseUrl) : extended.baseUrl;
+  // Without a baseUrl, paths resolve from the config's own directory
+  const pathsRoot = baseUrl ?? toRoot(".");
+
+  return {
+    baseUrl,
+    paths: options.paths
+      ? Object.fromEntries(
+          Object.entries(options.paths as Record<string, string[]>).map(
+            ([pattern, targets]) => [
+              pattern,
+              targets.map((target) => posix.join(pathsRoot, target)),
+            ]
+          )
+        )
+      : extended.paths,
+  };
+}
+
+/**
+ * Resolve the imports of every file against the other files, setting
+ * `dependencies` and `dependents`. Imports of packages and of files that
+ * weren't read are left out.
+ */
+export function linkDependencies(
+  files: FileInfo[],
+  aliases: PathAliases
+): void {
+  const byPath = new Map<string, FileInfo>();
+  for (const file of files) {
+    if (!byPath.has(file.relativePath)) byPath.set(file.relativePath, file);
+  }
+
+  const dependents = new Map<string, Set<string>>();
+  const resolved = new Map<string, Dependency[]>();
+  for (const [relativePath, file] of byPath) {
+    const dependencies: Dependency[] = [];
+
+    for (const { specifier, names } of readImports(file.content)) {
+      const target = resolveImport(relativePath, specifier, aliases, byPath);
+      if (!target || target === relativePath) continue;
+
+      const existing = dependencies.find(
+        (dependency) => dependency.relativePath === target
+      );
+      if (existing) {
+        existing.names = [...new Set([...existing.names, ...names])];
+      } else {
+        dependencies.push({
+          specifier,
+          relativePath: target,
+          names,
+          symbols: [],
+        });
+      }
+      dependents.set(
+        target,
+        (dependents.get(target) || new Set()).add(relativePath)
+      );
+    }
+
+    for (const dependency of dependencies) {
+      dependency.symbols = getImportedSymbols(
+        byPath.get(dependency.relativePath)!,
+        dependency.names
+      );
+    }
+    resolved.set(relativePath, dependencies);
+  }
+
+  for (const file of files) {
+    file.dependencies = resolved.get(file.relativePath);
+    file.dependents = [...(dependents.get(file.relativePath) || [])];
+  }
+}
+
+/**
+ * "Depends On" and "Used By" link lists for a page, pointing at the
+ * documented pages of the files it imports and the files importing it
+ */
+export function generateDependencySections(
+  file: FileInfo,
+  pages: Map<string, FileInfo[]>
+): string {
+  const links = (paths: string[]) => {
+    const seen = new Set<string>();
+    return paths
+      .flatMap((path) => pages.get(path) || [])
+      .filter((page) => {
+        const href = getPageHref(page);
+        if (seen.has(href)) return false;
+        seen.add(href);
+        return true;
+      })
+      .map(
+        (page) =>
+          `- [${getFallbackLabel(page, page.category)}](${getPageHref(page)}) - \`${page.relativePath}\`\n`
+      )
+      .join("");
+  };
+
+  const dependsOn = links(
+    (file.dependencies || []).map((dependency) => dependency.relativePath)
+  );
+  // Type pages already list the users of each type they declare
+  const usedBy = file.category === "types" ? "" : links(file.dependents || []);
+
+  let content = "";
+  if (dependsOn) content += `\n## Depends On\n\n${dependsOn}`;
+  if (usedBy) content += `\n## Used By\n\n${usedBy}`;
+  return content;
+}
+
+// The sections generateDependencySections appends, at the end of a page
+const DEPENDENCY_SECTIONS =
+  /(?:\n## Depends On\n\n(?:- .*\n)+)?(?:\n## Used By\n\n(?:- .*\n)+)?$/;
+
+/**
+ * Remove the "Depends On" and "Used By" sections from a generated page, so
+ * they can be rebuilt when other files changed
+ */
+export function stripDependencySections(content: string): string {
+  return content.replace(DEPENDENCY_SECTIONS, "");
+}
+
+function readImports(
+  content: string
+): { specifier: string; names: string[] }[] {
+  const imports: { specifier: string; names: string[] }[] = [];
+
+  for (const [, clause, specifier] of content.matchAll(FROM_IMPORT)) {
+    imports.push({ specifier, names: getImportedNames(clause) });
+  }
+  for (const [, specifier] of content.matchAll(SIDE_EFFECT_IMPORT)) {
+    imports.push({ specifier, names: [] });
+  }
+  for (const [, specifier] of content.matchAll(CALL_IMPORT)) {
+    imports.push({ specifier, names: ["*"] });
+  }
+
+  return imports;
+}
+
+// "React, { useState as useS, type FC }" -> ["default", "useState", "FC"]
+function getImportedNames(clause: string): string[] {
+  const names: string[] = [];
+  const braces = /\{([^}]*)\}/.exec(clause);
+  const outside = clause
+    .replace(/\{[^}]*\}/, "")
+    .replace(/,/g, " ")
+    .trim();
+
+  if (/\*/.test(outside)) {
+    names.push("*");
+  } else if (outside) {
+    names.push("default");
+  }
+  for (const specifier of braces?.[1].split(",") || []) {
+    const name = specifier
+      .replace(/^\s*type\s+/, "")
+      .split(/\s+as\s+/)[0]
+      .trim();
+    if (name) names.push(name);
+  }
+
+  return names;
+}
+
+function getImportedSymbols(file: FileInfo, names: string[]): CodeSymbol[] {
+  const exported = file.symbols?.symbols.filter((symbol) => symbol.exported);
+  if (!exported) return [];
+  if (names.includes("*")) return exported;
+
+  return exported.filter(
+    (symbol) =>
+      names.includes(symbol.name) ||
+      (symbol.isDefault && names.includes("default"))
+  );
+}
+
+function resolveImport(
+  fromPath: string,
+  specifier: string,
+  aliases: PathAliases,
+  files: Map<string, FileInfo>
+): string | undefined {
+  const bases: string[] = [];
+
+  if (specifier.startsWith(".")) {
+    bases.push(posix.join(posix.dirname(fromPath), specifier));
+  } else {
+    // tsconfig paths: "@/*" -> ["src/*"]
+    for (const [pattern, targets] of Object.entries(aliases.paths)) {
+      const [prefix, suffix = ""] = pattern.split("*");
+      const wildcard = pattern.includes("*");
+      const matches = wildcard
+        ? specifier.startsWith(prefix) && specifier.endsWith(suffix)
+        : specifier === pattern;
+      if (!matches) continue;
+
+      const captured = wildcard
+        ? specifier.slice(prefix.length, specifier.length - suffix.length)
+        : "";
+      for (const target of targets) {
+        bases.push(target.replace("*", captured));
+      }
+    }
+    // baseUrl makes "lib/auth" resolve from e.g. src/
+    if (aliases.baseUrl !== undefined) {
+      bases.push(posix.join(aliases.baseUrl, specifier));
+    }
+  }
+
+  for (const base of bases) {
+    const stem = base.replace(/\.(js|jsx|mjs|cjs)$/, "");
+    const candidate = [
+      base,
+      ...EXTENSIONS.flatMap((extension) => [
+        `${stem}.${extension}`,
+        `${base}/index.${extension}`,
+      ]),
+    ].find((path) => files.has(path));
+    if (candidate) return candidate;
+  }
+
+  return undefined;
+}
@@ -0,0 +1,133 @@
+import chalk from "chalk";
+
+export type SkipReason =
+  | "too large"
+  | "binary"
+  | "lockfile"
+  | "environment file"
+  | "minified"
+  | "generated";
+
+export interface SkippedFile {
+  relativePath: string;
+  reason: SkipReason;
+}
+
+export interface SkipOptions {
+  // Files bigger than this (in bytes) are never read
+  maxFileSize: number;
+  // A line longer than this marks the file as minified
+  maxLineLength: number;
+}
+
+const LOCKFILES = new Set([
+  "package-lock.json",
+  "npm-shrinkwrap.json",
+  "yarn.lock",
+  "pnpm-lock.yaml",
+  "bun.lock",
+  "bun.lockb",
+  "deno.lock",
+  "composer.lock",
+  "Gemfile.lock",
+  "Cargo.lock",
+  "poetry.lock",
+]);
+
+/**
+ * Resolve the file size and line length limits from zen.config.mjs
+ */
+export function resolveSkipOptions(config: any): SkipOptions {
+  return {
+    maxFileSize: Math.max(1, config.maxFileSizeKb ?? 200) * 1024,
+    maxLineLength: Math.max(1, config.maxLineLength ?? 1000),
+  };
+}
+
+/**
+ * Reason to skip a file based on its name and size alone, so oversized files
+ * are never read
+ */
+export function getPathSkipReason(
+  fileName: string,
+  size: number,
+  options: SkipOptions
+): SkipReason | undefined {
+  if (LOCKFILES.has(fileName)) return "lockfile";
+
+  // .env.example and friends hold no real values
+  if (
+    /^\.env(\..+)?$/.test(fileName) &&
+    !/\.(example|sample|template)$/.test(fileName)
+  ) {
+    return "environment file";
+  }
+
+  if (/\.min\.(js|mjs|cjs|css)$/.test(fileName) || fileName.endsWith(".map")) {
+    return "minified";
+  }
+
+  if (size > options.maxFileSize) return "too large";
+
+  return undefined;
+}
+
+/**
+ * Reason to skip a file based on its content: binary data, bundler output
+ * and generated code aren't worth documenting
+ */
+export function getContentSkipReason(
+  buffer: Buffer,
+  options: SkipOptions
+): SkipReason | undefined {
+  // Same heuristic as git: a NUL byte near the start means binary
+  if (buffer.subarray(0, 8000).includes(0)) return "binary";
+
+  let content: string;
+  try {
+    content = new TextDecoder("utf-8", { fatal: true }).decode(buffer);
+  } catch (error) {
+    return "binary";
+  }
+
+  if (/^\s*\/[/*][#@]\s*sourceMappingURL=/m.test(content)) {
+    return "generated";
+  }
+
+  // Generator banners sit at the top of the file
+  const header = content.slice(0, 1000);
+  if (/@generated|\bDO NOT EDIT\b|auto-?generated/i.test(header)) {
+    return "generated";
+  }
+
+  if (content.split("\n").some((line) => line.length > options.maxLineLength)) {
+    return "minified";
+  }
+
+  return undefined;
+}
+
+/**
+ * Print how many files were skipped, grouped by reason
+ */
+export function printSkipSummary(skipped: SkippedFile[]): void {
+  if (skipped.length === 0) return;
+
+  const byReason = new Map<SkipReason, string[]>();
+  for (const { relativePath, reason } of skipped) {
+    byReason.set(reason, [...(byReason.get(reason) || []), relativePath]);
+  }
+
+  console.log(chalk.bold.bgYellow.black(` Skipped ${skipped.length} files `));
+  for (const [reason, paths] of byReason) {
+    const examples = paths.slice(0, 3).join(", ");
+    const more = paths.length > 3 ? `, +${paths.length - 3} more` : "";
+    console.log(
+      chalk.yellowBright("  ⏭  ") +
+        chalk.bold(reason.padEnd(17)) +
+        chalk.whiteBright(": ") +
+        chalk.gray(`${examples}${more}`)
+    );
+  }
+  console.log();
+}
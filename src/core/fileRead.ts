@@ -1,101 +1,106 @@
-import { readdir, readFile } from "fs/promises";
+import { readdir, readFile, stat } from "fs/promises";
 import { join } from "path";
-import { existsSync } from "fs";
+import ignore from "ignore";
+import type { Ignore } from "ignore";
+import { extractSymbols } from "./symbols.js";
+import type { FileSymbols } from "./symbols.js";
+import { getContentSkipReason, getPathSkipReason } from "./fileFilters.js";
+import type { SkipOptions, SkipReason } from "./fileFilters.js";
+import type { FrameworkAdapter } from "./frameworks.js";
+import type { Endpoint } from "./routeExtraction.js";
+import { getCategories, matchCategoryPath } from "./categories.js";
+import { createPathMatcher, toGlob } from "./pathPatterns.js";
+import { isHookModule } from "./reactHooks.js";
+import { isServerActionModule } from "./serverActions.js";
+import { getMiddlewareRoutes, isMiddlewareModule } from "./middleware.js";
+import { isTypeModule } from "./typeReference.js";
+import { linkDependencies, loadPathAliases } from "./dependencyGraph.js";
+import type { Dependency } from "./dependencyGraph.js";
 
 export interface FileInfo {
   path: string;
   content: string;
-  category: "components" | "pages" | "api" | "lib" | "config" | "other";
+  // Name of a built-in or configured category (see categories.ts)
+  category: string;
   relativePath: string;
   fileName: string;
   extension: string;
+  // Parsed declarations for TS/JS files, undefined if the file did not parse
+  symbols?: FileSymbols;
+  // Public URL of a page or endpoint, from the framework's routing rules
+  route?: string;
+  // HTTP methods an endpoint handles (uppercase), when the framework tells
+  httpMethods?: string[];
+  // Set when the file is split into one entry per registered route
+  endpoint?: Endpoint;
+  // Routes a middleware file runs for, e.g. "GET /api/users" or "/dashboard"
+  appliesTo?: string[];
+  // Project files this file imports, and the files importing it
+  dependencies?: Dependency[];
+  dependents?: string[];
 }
 
-export async function readCodebase(
-  ignoredFolders: string[] = ["node_modules", "dist", ".next", ".git"]
-): Promise<string[]> {
-  const files: string[] = [];
-
-  // Read .gitignore if it exists
-  let gitignorePatterns: string[] = [];
-  const gitignorePath = join(process.cwd(), ".gitignore");
-
-  if (existsSync(gitignorePath)) {
-    try {
-      const gitignoreContent = await readFile(gitignorePath, "utf-8");
-      gitignorePatterns = gitignoreContent
-        .split("\n")
-        .map((line) => line.trim())
-        .filter((line) => line && !line.startsWith("#")) // Remove empty lines and comments
-        .map((pattern) => {
-          // Remove leading slash and trailing slash
-          return pattern.replace(/^\/+/, "").replace(/\/+$/, "");
-        });
-    } catch (error) {
-      // Silently handle gitignore read errors - not critical
-    }
-  }
-
-  // Combine gitignore patterns with default ignored folders
-  const allIgnoredPatterns = [
-    ...new Set([...gitignorePatterns, ...ignoredFolders]),
-  ];
-
-  function shouldIgnore(path: string): boolean {
-    // Normalize path separators for cross-platform compatibility
-    const relativePath = path
-      .replace(process.cwd(), "")
-      .replace(/^[\/\\]+/, "")
-      .replace(/[\/\\]/g, "/"); // Normalize to forward slashes
-
-    // Special handling for Next.js route groups - don't ignore directories with parentheses
-    // Route groups like (landing), (auth), etc. should not be ignored
-    if (relativePath.includes("(") && relativePath.includes(")")) {
-      return false;
-    }
+export interface ReadOptions {
+  ignoredFolders?: string[];
+  // Globs relative to the project root; empty means the whole project
+  include?: string[];
+  // Globs removed from the included files (e.g. tests, the docs output)
+  exclude?: string[];
+}
 
-    return allIgnoredPatterns.some((pattern) => {
-      // Normalize pattern separators
-      const normalizedPattern = pattern.replace(/[\/\\]/g, "/");
-
-      // Handle directory patterns (ending with /)
-      if (normalizedPattern.endsWith("/")) {
-        const dirPattern = normalizedPattern.slice(0, -1);
-        return (
-          relativePath.startsWith(dirPattern + "/") ||
-          relativePath === dirPattern
-        );
-      }
+export async function readCodebase({
+  ignoredFolders = ["node_modules", "dist", ".next", ".git", ".zen-doc"],
+  include = [],
+  exclude = [],
+}: ReadOptions = {}): Promise<string[]> {
+  const files: string[] = [];
+  const isIncluded =
+    include.length > 0 ? createPathMatcher(include) : () => true;
+  const isExcluded = createPathMatcher(exclude);
+  // Folders excluded as a whole ("docs", "build/**") aren't walked at all
+  const isExcludedFolder = createPathMatcher(
+    exclude.map(toGlob).filter((pattern) => pattern.endsWith("/**"))
+  );
 
-      // Handle file patterns
-      return (
-        relativePath === normalizedPattern ||
-        relativePath.endsWith("/" + normalizedPattern)
-      );
-    });
-  }
+  // Folders skipped at any depth, matched like a root ignore file
+  const defaultRules: IgnoreLayer = {
+    base: "",
+    rules: ignore().add(ignoredFolders.map((folder) => `${folder}/`)),
+  };
 
-  async function traverse(currentDir: string): Promise<void> {
+  async function traverse(
+    currentDir: string,
+    relativeDir: string,
+    parentLayers: IgnoreLayer[]
+  ): Promise<void> {
     try {
+      const layers = [
+        ...parentLayers,
+        ...(await readIgnoreFiles(currentDir, relativeDir)),
+      ];
       const entries = await readdir(currentDir, { withFileTypes: true });
 
       for (const entry of entries) {
         const fullPath = join(currentDir, entry.name);
-        const relativePath = fullPath
-          .replace(process.cwd(), "")
-          .replace(/^[\/\\]+/, "")
-          .replace(/[\/\\]/g, "/"); // Normalize to forward slashes
+        const relativePath = relativeDir
+          ? `${relativeDir}/${entry.name}`
+          : entry.name;
 
         if (entry.isDirectory()) {
-          // Skip ignored folders
-          if (!shouldIgnore(relativePath)) {
-            await traverse(fullPath);
-          }
-        } else {
-          // Skip ignored files
-          if (!shouldIgnore(relativePath)) {
-            files.push(fullPath);
+          // Git never looks inside an ignored folder, so its files can't be
+          // re-included
+          if (
+            !isIgnored(relativePath, true, layers) &&
+            !isExcludedFolder(`${relativePath}/`)
+          ) {
+            await traverse(fullPath, relativePath, layers);
           }
+        } else if (
+          !isIgnored(relativePath, false, layers) &&
+          isIncluded(relativePath) &&
+          !isExcluded(relativePath)
+        ) {
+          files.push(fullPath);
         }
       }
     } catch (error) {
@@ -104,16 +109,80 @@ export async function readCodebase(
   }
 
   // Always start from current working directory
-  await traverse(process.cwd());
+  await traverse(process.cwd(), "", [defaultRules]);
+
   return files;
 }
 
-export async function categorizeFiles(files: string[]): Promise<FileInfo[]> {
+/**
+ * Rules of one ignore file, relative to the folder it lives in
+ */
+interface IgnoreLayer {
+  base: string;
+  rules: Ignore;
+}
+
+// Read in every folder; .zendocignore hides files from the docs but not git
+const IGNORE_FILES = [".gitignore", ".zendocignore"];
+
+async function readIgnoreFiles(
+  dir: string,
+  relativeDir: string
+): Promise<IgnoreLayer[]> {
+  const layers: IgnoreLayer[] = [];
+
+  for (const name of IGNORE_FILES) {
+    try {
+      const content = await readFile(join(dir, name), "utf-8");
+      layers.push({ base: relativeDir, rules: ignore().add(content) });
+    } catch (error) {
+      // Missing or unreadable ignore files are skipped
+    }
+  }
+
+  return layers;
+}
+
+/**
+ * Apply the ignore files from the root down: like git, a rule in a deeper
+ * file (or later in the same file) overrides earlier ones, so `!keep.ts`
+ * can re-include a file ignored by a parent folder's pattern
+ */
+function isIgnored(
+  relativePath: string,
+  isDirectory: boolean,
+  layers: IgnoreLayer[]
+): boolean {
+  let ignored = false;
+
+  for (const { base, rules } of layers) {
+    const path = base ? relativePath.slice(base.length + 1) : relativePath;
+    // A trailing slash lets directory-only rules ("build/") match
+    const result = rules.test(isDirectory ? `${path}/` : path);
+
+    if (result.ignored) ignored = true;
+    else if (result.unignored) ignored = false;
+  }
+
+  return ignored;
+}
+
+export interface CategorizeOptions {
+  // Framework routing rules; without one only the generic folder rules apply
+  framework?: FrameworkAdapter;
+  skip?: SkipOptions;
+  // Called for every file left out as binary, generated, oversized, ...
+  onSkip?: (relativePath: string, reason: SkipReason) => void;
+}
+
+export async function categorizeFiles(
+  files: string[],
+  { framework, skip, onSkip }: CategorizeOptions = {}
+): Promise<FileInfo[]> {
   const fileInfos: FileInfo[] = [];
 
   for (const filePath of files) {
     try {
-      const content = await readFile(filePath, "utf-8");
       const relativePath = filePath
         .replace(process.cwd(), "")
         .replace(/^[\/\\]+/, "")
@@ -121,8 +190,32 @@ export async function categorizeFiles(files: string[]): Promise<FileInfo[]> {
       const fileName = relativePath.split("/").pop() || "";
       const extension = fileName.split(".").pop()?.toLowerCase() || "";
 
-      // Determine category based on path and content
-      const category = determineCategory(relativePath, content, extension);
+      let content: string;
+      if (skip) {
+        const { size } = await stat(filePath);
+        const pathReason = getPathSkipReason(fileName, size, skip);
+        if (pathReason) {
+          onSkip?.(relativePath, pathReason);
+          continue;
+        }
+
+        const buffer = await readFile(filePath);
+        const contentReason = getContentSkipReason(buffer, skip);
+        if (contentReason) {
+          onSkip?.(relativePath, contentReason);
+          continue;
+        }
+        content = buffer.toString("utf-8");
+      } else {
+        content = await readFile(filePath, "utf-8");
+      }
+
+      // Configured category paths win over framework and folder rules
+      const category =
+        matchCategoryPath(relativePath) ??
+        framework?.getCategory(relativePath, content) ??
+        determineCategory(relativePath, content, extension);
+      const symbols = extractSymbols(content, extension);
 
       fileInfos.push({
         path: filePath,
@@ -131,13 +224,49 @@ export async function categorizeFiles(files: string[]): Promise<FileInfo[]> {
         relativePath,
         fileName,
         extension,
+        symbols,
+        route:
+          category === "pages" || category === "api"
+            ? framework?.getRoute(relativePath, content)
+            : undefined,
+        httpMethods:
+          category === "api" && framework
+            ? framework.getHttpMethods({ relativePath, content, symbols })
+            : undefined,
       });
     } catch (error) {
       // Silently handle file read errors - not critical for overall process
     }
   }
 
-  return fileInfos;
+  // Files serving several endpoints get one entry per endpoint
+  const endpoints = framework?.getEndpoints?.(fileInfos);
+  const expanded = !endpoints
+    ? fileInfos
+    : fileInfos.flatMap((file) => {
+        const registered = endpoints.get(file.relativePath);
+        if (!registered?.length) return [file];
+
+        return registered.map((endpoint) => ({
+          ...file,
+          category: "api",
+          route: endpoint.path,
+          httpMethods: [endpoint.method],
+          endpoint,
+        }));
+      });
+
+  // Imports resolved across the codebase, including tsconfig paths aliases
+  linkDependencies(expanded, loadPathAliases());
+
+  // Middleware is matched against the final list of routes
+  for (const file of expanded) {
+    if (file.category === "middleware") {
+      file.appliesTo = getMiddlewareRoutes(file, expanded);
+    }
+  }
+
+  return expanded;
 }
 
 function determineCategory(
@@ -159,6 +288,21 @@ function determineCategory(
     return "pages";
   }
 
+  // Server actions - modules starting with "use server"
+  if (isServerActionModule(content)) {
+    return "actions";
+  }
+
+  // Types - .d.ts files, types folders and modules exporting only types
+  if (isTypeModule(relativePath, content)) {
+    return "types";
+  }
+
+  // Hooks - any file in a hooks folder
+  if (path.includes("/hooks/") || path.startsWith("hooks/")) {
+    return "hooks";
+  }
+
   // Components - any file in components folder or subfolders
   if (
     path.includes("/components/") ||
@@ -177,6 +321,16 @@ function determineCategory(
     return "api";
   }
 
+  // Next.js middleware.ts, middleware folders and (req, res, next) handlers
+  if (isMiddlewareModule(relativePath, content)) {
+    return "middleware";
+  }
+
+  // Modules exporting only use* functions are hooks wherever they live
+  if (isHookModule(content)) {
+    return "hooks";
+  }
+
   // Lib/Utils - any file in lib, utils, or helpers folders
   if (
     path.includes("/lib/") ||
@@ -206,18 +360,13 @@ function determineCategory(
 
 export function groupFilesByCategory(
   fileInfos: FileInfo[]
-): Record<FileInfo["category"], FileInfo[]> {
-  const grouped: Record<FileInfo["category"], FileInfo[]> = {
-    components: [],
-    pages: [],
-    api: [],
-    lib: [],
-    config: [],
-    other: [],
-  };
+): Record<string, FileInfo[]> {
+  const grouped: Record<string, FileInfo[]> = Object.fromEntries(
+    getCategories().map((category) => [category.name, []])
+  );
 
   for (const fileInfo of fileInfos) {
-    grouped[fileInfo.category].push(fileInfo);
+    (grouped[fileInfo.category] ||= []).push(fileInfo);
   }
 
   return grouped;
@@ -1,8 +1,6 @@
 import type { FileInfo } from "./fileRead.js";
-import {
-  getRouteFromPath,
-  getHttpMethodFromFile,
-} from "./contentProcessing.js";
+import { getCategories, getCategory } from "./categories.js";
+import { getFileRoute, getHttpMethodFromFile } from "./contentProcessing.js";
 import { existsSync } from "fs";
 import { join } from "path";
 import chalk from "chalk";
@@ -10,7 +8,10 @@ import chalk from "chalk";
 export function groupFilesByCategory(
   fileInfos: FileInfo[]
 ): Record<string, FileInfo[]> {
-  const grouped: Record<string, FileInfo[]> = {};
+  // Seeded in registry order so the sidebar lists categories consistently
+  const grouped: Record<string, FileInfo[]> = Object.fromEntries(
+    getCategories().map((category) => [category.name, []])
+  );
 
   for (const fileInfo of fileInfos) {
     if (!grouped[fileInfo.category]) {
@@ -42,51 +43,88 @@ export function filterEmptyCategories(
 export function getUniqueFileName(file: FileInfo, category: string): string {
   const baseName = file.fileName.replace(/\.[^/.]+$/, ""); // Remove extension
 
-  // Handle server actions: replace .action with -action in the baseName
-  const processedBaseName = baseName.replace(/\.action/g, "-action");
+  // Handle server actions: replace .action with -action in the baseName,
+  // and drop the .d of declaration files
+  const processedBaseName = baseName
+    .replace(/\.action/g, "-action")
+    .replace(/\.d$/, "");
 
   // For API routes, create descriptive names based on directory structure (Next.js file-based routing)
   if (category === "api") {
-    const routePath = getRouteFromPath(file.relativePath);
+    const routePath = getFileRoute(file);
     const httpMethod = getHttpMethodFromFile(file);
 
     if (routePath && httpMethod) {
       // Use the route path for the filename, replacing slashes with dashes
       const cleanRoute = routePath
         .replace(/^\/+|\/+$/g, "")
-        .replace(/\//g, "-");
-      return `${httpMethod}-${cleanRoute}-api.md`.toLowerCase();
+        .replace(/\//g, "-")
+        // :id and *slug segments aren't safe in file names
+        .replace(/[^a-zA-Z0-9_-]/g, "");
+      return `${httpMethod}-${cleanRoute}-api.mdx`.toLowerCase();
     }
 
     // Fallback: use baseName with api suffix
-    return `${processedBaseName}-api.md`.toLowerCase();
+    return `${processedBaseName}-api.mdx`.toLowerCase();
   }
 
   // For pages, create descriptive names based on directory structure
   if (category === "pages") {
-    const routePath = getRouteFromPath(file.relativePath);
+    const routePath = getFileRoute(file);
     if (routePath) {
       const cleanPath = routePath
         .replace(/[^a-zA-Z0-9]/g, "-")
         .replace(/-+/g, "-")
         .replace(/^-|-$/g, "");
-      return `${cleanPath}-page.md`.toLowerCase();
+      return `${cleanPath}-page.mdx`.toLowerCase();
     }
-    return `${processedBaseName}-page.md`.toLowerCase();
+    return `${processedBaseName}-page.mdx`.toLowerCase();
   }
 
-  // For components, add component prefix
-  if (category === "components") {
-    return `${processedBaseName}-component.md`.toLowerCase();
+  // Other categories add their suffix, e.g. button-component.mdx, unless the
+  // name already says it (user.action.ts, middleware.ts, actions.ts)
+  const suffix = getCategory(category)?.suffix;
+  if (suffix) {
+    const name = processedBaseName.toLowerCase();
+    return name === suffix ||
+      name === `${suffix}s` ||
+      name.endsWith(`-${suffix}`)
+      ? `${name}.mdx`
+      : `${name}-${suffix}.mdx`;
   }
 
-  // For lib/utilities, add utility prefix
-  if (category === "lib") {
-    return `${processedBaseName}-utility.md`.toLowerCase();
+  // Default fallback
+  return `${processedBaseName}.mdx`.toLowerCase();
+}
+
+/**
+ * Site path of a file's page, e.g. /lib/math-utility
+ */
+export function getPageHref(file: FileInfo): string {
+  return `/${file.category}/${getUniqueFileName(file, file.category).replace(
+    /\.mdx$/,
+    ""
+  )}`;
+}
+
+/**
+ * Sidebar label derived from the file path alone, used when no AI label is available
+ */
+export function getFallbackLabel(file: FileInfo, category: string): string {
+  if (file.route) {
+    return category === "api"
+      ? `${getHttpMethodFromFile(file).toUpperCase()} ${file.route}`
+      : file.route;
   }
 
-  // Default fallback
-  return `${processedBaseName}.md`.toLowerCase();
+  if (category === "api" || category === "pages") {
+    let route = getFileRoute(file);
+    if (route.startsWith("/app/")) route = route.replace(/^\/app/, "");
+    if (route.endsWith("/route")) route = route.replace(/\/route$/, "");
+    return route;
+  }
+
+  return file.fileName.replace(/\.[^/.]+$/, "");
 }
 
 export function getActionFromRoute(routePath: string, method: string): string {
@@ -153,25 +191,11 @@ export function getActionFromRoute(routePath: string, method: string): string {
 }
 
 export function getCategoryTitle(category: string): string {
-  const titles = {
-    components: "Components",
-    pages: "Pages",
-    api: "API Routes",
-    lib: "Libraries & Utilities",
-  };
-
-  return titles[category as keyof typeof titles] || category;
+  return getCategory(category)?.title || category;
 }
 
 export function getCategoryDescription(category: string): string {
-  const descriptions = {
-    components: "Reusable UI components used throughout the application.",
-    pages: "Page components and routing logic.",
-    api: "API endpoints and server-side logic.",
-    lib: "Utility functions, helpers, and shared libraries.",
-  };
-
-  return descriptions[category as keyof typeof descriptions] || "";
+  return getCategory(category)?.description || "";
 }
 
 export function checkValidNodeProject(): void {
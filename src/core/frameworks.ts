@@ -0,0 +1,557 @@
+import { existsSync, readFileSync } from "fs";
+import type { FileInfo } from "./fileRead.js";
+import { extractEndpoints, getRegisteredMethods } from "./routeExtraction.js";
+import type { Endpoint } from "./routeExtraction.js";
+
+export type FrameworkName =
+  | "next-app"
+  | "next-pages"
+  | "remix"
+  | "sveltekit"
+  | "nuxt"
+  | "astro"
+  | "nestjs"
+  | "hono"
+  | "fastify"
+  | "express"
+  | "generic";
+
+export type FileCategory = FileInfo["category"];
+
+/**
+ * Framework-specific rules for where pages and endpoints live, which URL they
+ * serve and which HTTP methods they handle
+ */
+export interface FrameworkAdapter {
+  name: FrameworkName;
+  label: string;
+  // Source folders suggested by `init`
+  include: string[];
+  // Category for files the framework gives a role to; undefined falls back
+  // to the generic folder rules
+  getCategory(relativePath: string, content: string): FileCategory | undefined;
+  // Public URL of a page or endpoint file
+  getRoute(relativePath: string, content: string): string | undefined;
+  // HTTP methods handled by an endpoint file, uppercase; empty when unknown
+  getHttpMethods(
+    file: Pick<FileInfo, "relativePath" | "content" | "symbols">
+  ): string[];
+  // Endpoints served by each file, e.g. `router.get("/users/:id", ...)` calls
+  // or exported method handlers; every endpoint gets its own page
+  getEndpoints?(files: FileInfo[]): Map<string, Endpoint[]>;
+}
+
+const HTTP_METHODS = [
+  "GET",
+  "POST",
+  "PUT",
+  "PATCH",
+  "DELETE",
+  "HEAD",
+  "OPTIONS",
+];
+
+/**
+ * Pick the framework adapter: `framework` from zen.config.mjs wins, otherwise
+ * it is detected from package.json and the project layout
+ */
+export function resolveFramework(config: any): {
+  adapter: FrameworkAdapter;
+  detected: boolean;
+} {
+  if (config.framework) {
+    const adapter = ADAPTERS[config.framework as FrameworkName];
+    if (!adapter) {
+      throw new Error(
+        `Unknown framework "${config.framework}". Expected one of: ${Object.keys(
+          ADAPTERS
+        ).join(", ")}`
+      );
+    }
+    return { adapter, detected: false };
+  }
+
+  return { adapter: detectFramework(), detected: true };
+}
+
+/**
+ * Detect the framework from package.json dependencies and the project layout
+ */
+export function detectFramework(cwd: string = process.cwd()): FrameworkAdapter {
+  let dependencies: Record<string, string> = {};
+  try {
+    const pkg = JSON.parse(readFileSync(`${cwd}/package.json`, "utf-8"));
+    dependencies = { ...pkg.dependencies, ...pkg.devDependencies };
+  } catch (error) {
+    // Without a readable package.json only the generic rules apply
+  }
+
+  const has = (name: string) => Boolean(dependencies[name]);
+  const hasDir = (dir: string) => existsSync(`${cwd}/${dir}`);
+
+  if (has("next")) {
+    return hasDir("app") || hasDir("src/app")
+      ? ADAPTERS["next-app"]
+      : ADAPTERS["next-pages"];
+  }
+  if (
+    Object.keys(dependencies).some((name) => name.startsWith("@remix-run/"))
+  ) {
+    return ADAPTERS.remix;
+  }
+  if (has("@sveltejs/kit")) return ADAPTERS.sveltekit;
+  if (has("nuxt")) return ADAPTERS.nuxt;
+  if (has("astro")) return ADAPTERS.astro;
+  // Nest runs on top of Express or Fastify, so it is checked first
+  if (has("@nestjs/core")) return ADAPTERS.nestjs;
+  if (has("hono")) return ADAPTERS.hono;
+  if (has("fastify")) return ADAPTERS.fastify;
+  if (has("express")) return ADAPTERS.express;
+
+  return ADAPTERS.generic;
+}
+
+// ---------------------------------------------------------------------------
+// File-based routers
+// ---------------------------------------------------------------------------
+
+// Path inside the first matching routes folder, e.g. "api/users/[id]/route.ts"
+function stripRoot(relativePath: string, roots: string[]): string | undefined {
+  for (const root of roots) {
+    if (relativePath.startsWith(`${root}/`)) {
+      return relativePath.slice(root.length + 1);
+    }
+  }
+  return undefined;
+}
+
+// [id] -> :id, [...slug] and [[...slug]] -> *slug, [[id]] -> :id?
+function bracketSegment(segment: string): string {
+  const optionalCatchAll = /^\[\[\.\.\.(.+)\]\]$/.exec(segment);
+  if (optionalCatchAll) return `*${optionalCatchAll[1]}`;
+  const catchAll = /^\[\.\.\.(.+)\]$/.exec(segment);
+  if (catchAll) return `*${catchAll[1]}`;
+  const optional = /^\[\[(.+)\]\]$/.exec(segment);
+  if (optional) return `:${optional[1]}?`;
+  const dynamic = /^\[(.+)\]$/.exec(segment);
+  if (dynamic) return `:${dynamic[1]}`;
+  return segment;
+}
+
+function joinRoute(segments: string[]): string {
+  return "/" + segments.filter(Boolean).join("/");
+}
+
+function withoutExtension(name: string): string {
+  return name.replace(/\.[^/.]+$/, "");
+}
+
+// `export function GET`, `export const POST = ...`, `export { handler as PUT }`
+function exportedMethods(
+  file: Pick<FileInfo, "content" | "symbols">
+): string[] {
+  const exports = file.symbols?.exports;
+  if (exports) {
+    return HTTP_METHODS.filter((method) => exports.includes(method));
+  }
+
+  return HTTP_METHODS.filter((method) =>
+    new RegExp(
+      `export\\s+(?:async\\s+)?(?:function|const|let|var)\\s+${method}\\b`
+    ).test(file.content)
+  );
+}
+
+// One endpoint per exported handler, so a route file exporting GET, POST and
+// DELETE gets a page for each method
+function getHandlerEndpoints(files: FileInfo[]): Map<string, Endpoint[]> {
+  const endpoints = new Map<string, Endpoint[]>();
+
+  for (const file of files) {
+    if (file.category !== "api" || !file.route) continue;
+
+    const handlers = (file.httpMethods || []).flatMap((method) => {
+      // Astro 1.x named its handlers in lowercase
+      const name = [method, method.toLowerCase()].find((candidate) =>
+        file.symbols?.exports.includes(candidate)
+      );
+      return name ? [{ method, name }] : [];
+    });
+    if (handlers.length === 0) continue;
+
+    endpoints.set(
+      file.relativePath,
+      handlers.map(({ method, name }) => ({
+        method,
+        path: file.route!,
+        middleware: [],
+        handler: name,
+        line: getHandlerLine(file, name),
+      }))
+    );
+  }
+
+  return endpoints;
+}
+
+function getHandlerLine(file: FileInfo, name: string): number {
+  const symbol = file.symbols?.symbols.find(
+    (candidate) => candidate.name === name
+  );
+  if (symbol) return symbol.line;
+
+  // `export { handler as GET }` names the handler after a different symbol
+  const match = new RegExp(`\\b${name}\\b`).exec(file.content);
+  return match ? file.content.slice(0, match.index).split("\n").length : 1;
+}
+
+function createNextAdapter(router: "app" | "pages"): FrameworkAdapter {
+  const appRoots = ["app", "src/app"];
+  const pagesRoots = ["pages", "src/pages"];
+
+  // App Router: folders are segments; groups, slots and interceptors are not
+  const appRoute = (inner: string) =>
+    joinRoute(
+      inner
+        .split("/")
+        .slice(0, -1)
+        .filter(
+          (segment) =>
+            !/^\(.*\)$/.test(segment) &&
+            !segment.startsWith("@") &&
+            !segment.startsWith("_")
+        )
+        .map(bracketSegment)
+    );
+
+  // Pages Router: the file name is the last segment, index is the folder
+  const pagesRoute = (inner: string) => {
+    const segments = inner.split("/");
+    segments[segments.length - 1] = withoutExtension(
+      segments[segments.length - 1]
+    );
+    if (segments[segments.length - 1] === "index") segments.pop();
+    return joinRoute(segments.map(bracketSegment));
+  };
+
+  const resolve = (
+    relativePath: string
+  ): { category: FileCategory; route?: string } | undefined => {
+    const fileName = relativePath.split("/").pop() || "";
+    const appPath = stripRoot(relativePath, appRoots);
+
+    if (appPath !== undefined && router === "app") {
+      if (/^page\.(tsx|jsx|ts|js|mdx)$/.test(fileName)) {
+        return { category: "pages", route: appRoute(appPath) };
+      }
+      if (/^route\.(ts|js)$/.test(fileName)) {
+        return { category: "api", route: appRoute(appPath) };
+      }
+      return undefined;
+    }
+
+    // Pages Router, also used next to the App Router during migrations
+    const pagesPath = stripRoot(relativePath, pagesRoots);
+    if (pagesPath !== undefined && /\.(tsx|jsx|ts|js|mdx)$/.test(fileName)) {
+      // _app, _document and _error customize rendering, they aren't routes
+      if (fileName.startsWith("_")) return { category: "config" };
+      return {
+        category: pagesPath.startsWith("api/") ? "api" : "pages",
+        route: pagesRoute(pagesPath),
+      };
+    }
+
+    return undefined;
+  };
+
+  return {
+    name: router === "app" ? "next-app" : "next-pages",
+    label: router === "app" ? "Next.js (App Router)" : "Next.js (Pages Router)",
+    include:
+      router === "app"
+        ? ["app", "src", "components", "hooks", "lib"]
+        : ["pages", "src", "components", "hooks", "lib"],
+    getCategory: (relativePath) => resolve(relativePath)?.category,
+    getRoute: (relativePath) => resolve(relativePath)?.route,
+    getHttpMethods(file) {
+      if (stripRoot(file.relativePath, appRoots) !== undefined) {
+        return exportedMethods(file);
+      }
+      // A Pages Router API handler serves every method from one function,
+      // so only methods it explicitly checks for are known
+      return HTTP_METHODS.filter((method) =>
+        new RegExp(`method\\s*===?\\s*["'\`]${method}["'\`]`).test(file.content)
+      );
+    },
+    // Pages Router handlers export no method names and stay one page
+    getEndpoints: getHandlerEndpoints,
+  };
+}
+
+// Remix flat routes: "app/routes/users.$id.tsx" and "app/routes/users.$id/route.tsx"
+const remixAdapter: FrameworkAdapter = (() => {
+  const routeName = (relativePath: string): string | undefined => {
+    const inner = stripRoot(relativePath, ["app/routes"]);
+    if (inner === undefined) return undefined;
+
+    const segments = inner.split("/");
+    if (segments.length === 1) return withoutExtension(segments[0]);
+    // Folder routes keep their module in route.tsx
+    if (segments.length === 2 && /^route\.(tsx|jsx|ts|js)$/.test(segments[1])) {
+      return segments[0];
+    }
+    return undefined;
+  };
+
+  const isResource = (content: string) =>
+    !/export\s+default\b/.test(content) &&
+    /export\s+(?:async\s+)?(?:function|const)\s+(loader|action)\b/.test(
+      content
+    );
+
+  return {
+    name: "remix",
+    label: "Remix",
+    include: ["app"],
+    getCategory(relativePath, content) {
+      if (relativePath.startsWith("app/routes/")) {
+        if (routeName(relativePath) === undefined) return "other";
+        // Routes without a component are resource routes (API endpoints)
+        return isResource(content) ? "api" : "pages";
+      }
+      return undefined;
+    },
+    getRoute(relativePath) {
+      const name = routeName(relativePath);
+      if (name === undefined) return undefined;
+
+      return joinRoute(
+        name
+          .split(".")
+          .filter((segment) => segment !== "_index" && !segment.startsWith("_"))
+          .map((segment) => {
+            // users_.edit keeps "users" but opts out of its layout
+            const cleaned = segment
+              .replace(/_$/, "")
+              .replace(/^\((.+)\)$/, "$1?");
+            if (cleaned === "$") return "*";
+            if (cleaned.startsWith("$")) return `:${cleaned.slice(1)}`;
+            return cleaned;
+          })
+      );
+    },
+    getHttpMethods(file) {
+      const methods: string[] = [];
+      if (
+        /export\s+(?:async\s+)?(?:function|const)\s+loader\b/.test(file.content)
+      ) {
+        methods.push("GET");
+      }
+      if (
+        /export\s+(?:async\s+)?(?:function|const)\s+action\b/.test(file.content)
+      ) {
+        methods.push("POST");
+      }
+      return methods;
+    },
+  };
+})();
+
+const svelteKitAdapter: FrameworkAdapter = {
+  name: "sveltekit",
+  label: "SvelteKit",
+  include: ["src"],
+  getCategory(relativePath) {
+    if (!relativePath.startsWith("src/routes/")) return undefined;
+    const fileName = relativePath.split("/").pop() || "";
+    if (fileName.startsWith("+page.svelte")) return "pages";
+    if (/^\+server\.(ts|js)$/.test(fileName)) return "api";
+    // +layout, +page.ts loaders and +error belong to the page they wrap
+    return "other";
+  },
+  getRoute(relativePath) {
+    const inner = stripRoot(relativePath, ["src/routes"]);
+    if (inner === undefined) return undefined;
+
+    return joinRoute(
+      inner
+        .split("/")
+        .slice(0, -1)
+        .filter((segment) => !/^\(.*\)$/.test(segment))
+        .map(bracketSegment)
+    );
+  },
+  getHttpMethods: (file) => exportedMethods(file),
+  getEndpoints: getHandlerEndpoints,
+};
+
+const nuxtAdapter: FrameworkAdapter = {
+  name: "nuxt",
+  label: "Nuxt",
+  include: ["pages", "components", "composables", "server", "utils", "layouts"],
+  getCategory(relativePath) {
+    if (/^pages\/.+\.vue$/.test(relativePath)) return "pages";
+    if (/^server\/(api|routes)\/.+\.(ts|js)$/.test(relativePath)) return "api";
+    if (relativePath.startsWith("composables/")) return "lib";
+    return undefined;
+  },
+  getRoute(relativePath) {
+    const pagePath = stripRoot(relativePath, ["pages"]);
+    const apiPath = stripRoot(relativePath, ["server/api"]);
+    const serverPath = stripRoot(relativePath, ["server/routes"]);
+    const inner = pagePath ?? apiPath ?? serverPath;
+    if (inner === undefined) return undefined;
+
+    const segments = inner.split("/");
+    // users.get.ts handles GET /users
+    segments[segments.length - 1] = withoutExtension(
+      segments[segments.length - 1]
+    ).replace(/\.(get|post|put|patch|delete|head|options)$/i, "");
+    if (segments[segments.length - 1] === "index") segments.pop();
+
+    return joinRoute([
+      apiPath !== undefined ? "api" : "",
+      ...segments.map(bracketSegment),
+    ]);
+  },
+  getHttpMethods(file) {
+    const suffix = /\.(get|post|put|patch|delete|head|options)\.[^/.]+$/i.exec(
+      file.relativePath
+    );
+    // Handlers without a method suffix answer every method
+    return suffix ? [suffix[1].toUpperCase()] : [];
+  },
+};
+
+const astroAdapter: FrameworkAdapter = {
+  name: "astro",
+  label: "Astro",
+  include: ["src"],
+  getCategory(relativePath) {
+    if (!relativePath.startsWith("src/pages/")) return undefined;
+    // .ts/.js files in src/pages are endpoints
+    return /\.(ts|js)$/.test(relativePath) ? "api" : "pages";
+  },
+  getRoute(relativePath) {
+    const inner = stripRoot(relativePath, ["src/pages"]);
+    if (inner === undefined) return undefined;
+
+    const segments = inner.split("/");
+    // data.json.ts serves /data.json
+    segments[segments.length - 1] = withoutExtension(
+      segments[segments.length - 1]
+    );
+    if (segments[segments.length - 1] === "index") segments.pop();
+    return joinRoute(segments.map(bracketSegment));
+  },
+  getHttpMethods(file) {
+    const methods = exportedMethods(file);
+    if (methods.length > 0) return methods;
+    // Astro 1.x used lowercase handler names
+    return HTTP_METHODS.filter((method) =>
+      (file.symbols?.exports || []).includes(method.toLowerCase())
+    );
+  },
+  getEndpoints: getHandlerEndpoints,
+};
+
+// ---------------------------------------------------------------------------
+// Code-based routers: routes are registered in code, not by file name
+// ---------------------------------------------------------------------------
+
+function createServerAdapter(
+  name: "express" | "fastify" | "hono",
+  label: string
+): FrameworkAdapter {
+  return {
+    name,
+    label,
+    include: ["src", "routes", "lib"],
+    getCategory(relativePath, content) {
+      if (/(^|\/)(routes|controllers|handlers)\//.test(relativePath)) {
+        return "api";
+      }
+      // Any module registering routes is an endpoint file. The regex only
+      // skips parsing files that can't be one.
+      if (!/\.(get|post|put|patch|delete)\(\s*["'`]\//.test(content)) {
+        return undefined;
+      }
+      const extension = relativePath.split(".").pop()?.toLowerCase() || "";
+      return getRegisteredMethods(content, extension).length > 0
+        ? "api"
+        : undefined;
+    },
+    getRoute: () => undefined,
+    getHttpMethods(file) {
+      const extension = file.relativePath.split(".").pop()?.toLowerCase() || "";
+      return getRegisteredMethods(file.content, extension).filter((method) =>
+        HTTP_METHODS.includes(method)
+      );
+    },
+    getEndpoints: extractEndpoints,
+  };
+}
+
+const nestAdapter: FrameworkAdapter = {
+  name: "nestjs",
+  label: "NestJS",
+  include: ["src"],
+  getCategory(relativePath) {
+    if (/\.controller\.(ts|js)$/.test(relativePath)) return "api";
+    if (
+      /\.(service|module|guard|interceptor|pipe)\.(ts|js)$/.test(relativePath)
+    ) {
+      return "lib";
+    }
+    return undefined;
+  },
+  // @Controller("users") prefixes every route the controller serves
+  getRoute(_relativePath, content) {
+    const prefix = /@Controller\(\s*["'`]([^"'`]*)["'`]/.exec(content);
+    if (!prefix) return undefined;
+    return joinRoute(prefix[1].split("/"));
+  },
+  getHttpMethods(file) {
+    return HTTP_METHODS.filter((method) =>
+      new RegExp(`@${method[0]}${method.slice(1).toLowerCase()}\\(`).test(
+        file.content
+      )
+    );
+  },
+};
+
+// No framework detected: app/**/route.ts still follows the App Router, so a
+// handler file exporting GET and POST gets a page per method
+const genericAdapter: FrameworkAdapter = (() => {
+  const appRouter = createNextAdapter("app");
+  const isRouteHandler = (relativePath: string) =>
+    /^(src\/)?app\/(.+\/)?route\.(ts|js)$/.test(relativePath);
+
+  return {
+    name: "generic",
+    label: "Generic",
+    include: ["src", "app", "pages", "components", "hooks", "lib"],
+    getCategory: (relativePath) =>
+      isRouteHandler(relativePath) ? "api" : undefined,
+    getRoute: (relativePath, content) =>
+      isRouteHandler(relativePath)
+        ? appRouter.getRoute(relativePath, content)
+        : undefined,
+    getHttpMethods: (file) => exportedMethods(file),
+    getEndpoints: getHandlerEndpoints,
+  };
+})();
+
+const ADAPTERS: Record<FrameworkName, FrameworkAdapter> = {
+  "next-app": createNextAdapter("app"),
+  "next-pages": createNextAdapter("pages"),
+  remix: remixAdapter,
+  sveltekit: svelteKitAdapter,
+  nuxt: nuxtAdapter,
+  astro: astroAdapter,
+  nestjs: nestAdapter,
+  hono: createServerAdapter("hono", "Hono"),
+  fastify: createServerAdapter("fastify", "Fastify"),
+  express: createServerAdapter("express", "Express"),
+  generic: genericAdapter,
+};
@@ -1,5 +1,21 @@
 import prompts from "prompts";
-import { writeFileSync } from "fs";
+import { existsSync, writeFileSync } from "fs";
+import { detectFramework } from "./frameworks.js";
+
+const DEFAULT_EXCLUDES = [
+  "**/*.test.*",
+  "**/*.spec.*",
+  "**/__tests__/**",
+  "**/*.stories.*",
+];
+
+/**
+ * Suggested include globs for the detected framework, limited to folders that
+ * exist
+ */
+function getDefaultIncludes(): string[] {
+  return detectFramework().include.filter((folder) => existsSync(folder));
+}
 
 export const generateConfig = async () => {
   // First, get the basic config without translation questions
@@ -16,6 +32,52 @@ export const generateConfig = async () => {
       message: "Output directory for docs:",
       initial: "docs",
     },
+    {
+      type: "list",
+      name: "include",
+      message:
+        "Folders or globs to document? (comma separated, empty for the whole project)",
+      initial: getDefaultIncludes().join(", "),
+      separator: ",",
+    },
+    {
+      type: "list",
+      name: "exclude",
+      message: "Globs to skip? (comma separated)",
+      initial: DEFAULT_EXCLUDES.join(", "),
+      separator: ",",
+    },
+    {
+      type: "select",
+      name: "provider",
+      message: "LLM provider:",
+      choices: [
+        { title: "Google Gemini", value: "google" },
+        { title: "OpenAI-compatible API", value: "openai" },
+        { title: "Local server (Ollama, llama.cpp)", value: "local" },
+      ],
+      initial: 0,
+    },
+    {
+      type: (prev: string) => (prev === "google" ? null : "text"),
+      name: "baseURL",
+      message: "API base URL:",
+      initial: (prev: string) =>
+        prev === "local"
+          ? "http://localhost:11434/v1"
+          : "https://api.openai.com/v1",
+    },
+    {
+      type: "text",
+      name: "model",
+      message: "Model:",
+      initial: (_: unknown, values: any) =>
+        values.provider === "openai"
+          ? "gpt-4o-mini"
+          : values.provider === "local"
+            ? "llama3.1"
+            : "gemini-2.0-flash",
+    },
     {
       type: "toggle",
       name: "useTranslation",
@@ -45,12 +107,22 @@ export const generateConfig = async () => {
     response.languages = [];
   }
 
+  const llm = {
+    provider: response.provider,
+    model: response.model,
+    ...(response.baseURL ? { baseURL: response.baseURL } : {}),
+    temperature: 0.3,
+    maxTokens: 4000,
+  };
+
   // Create config with environment variable references for API keys
   const config = `export default {
   apiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+  llm: ${JSON.stringify(llm, null, 4).replace(/\n}$/, "\n  }")},
   projectName: ${JSON.stringify(response.projectName)},
   author: ${JSON.stringify(response.author)},
-  include: ${JSON.stringify(response.include)},
+  include: ${JSON.stringify((response.include || []).filter(Boolean))},
+  exclude: ${JSON.stringify((response.exclude || []).filter(Boolean))},
   outputDir: ${JSON.stringify(response.outputDir)},
   useTranslation: ${JSON.stringify(response.useTranslation)},
   lingoApiKey: process.env.LINGO_API_KEY,
@@ -60,6 +132,10 @@ export const generateConfig = async () => {
   writeFileSync("zen.config.mjs", config);
   console.log("✅ zen.config.mjs created successfully!");
   console.log("📝 API keys will be read from environment variables:");
-  console.log("   - GOOGLE_GENERATIVE_AI_API_KEY for Google Gemini");
+  if (response.provider === "google") {
+    console.log("   - GOOGLE_GENERATIVE_AI_API_KEY for Google Gemini");
+  } else if (response.provider === "openai") {
+    console.log("   - OPENAI_API_KEY for the OpenAI-compatible API");
+  }
   console.log("   - LINGO_API_KEY for Lingo.dev (if translation enabled)");
 };
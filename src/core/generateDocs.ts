@@ -1,15 +1,18 @@
-import { writeFile, mkdir } from "fs/promises";
+import { writeFile, readFile, mkdir } from "fs/promises";
+import { existsSync } from "fs";
 import { join } from "path";
 import { loadConfig } from "../utils/loadConfig.ts";
-import { google } from "@ai-sdk/google";
-import { generateText } from "ai";
 import type { FileInfo } from "./fileRead.js";
 import chalk from "chalk";
 import ora from "ora";
 
 // Import from modular files
 import { getCategoryPrompt } from "./prompts.js";
-import { addFrontmatter, generateDocStructure } from "./contentProcessing.js";
+import {
+  addFrontmatter,
+  generateDocStructure,
+  loadFileHistory,
+} from "./contentProcessing.js";
 import {
   groupFilesByCategory,
   getUniqueFileName,
@@ -24,35 +27,85 @@ import {
   generateAstroConfig,
   moveContentToAstroProject,
   generateCategoryIndexes,
+  readSidebarLabels,
 } from "./astroGenerator.js";
 import { DocumentationTranslator } from "./translation.js";
-import { loadEnvFile } from "../utils/loadenv.ts";
-
+import { createProvider, getApiKeyEnvName } from "./llm.js";
+import type { LLMProvider } from "./llm.js";
+import {
+  CACHE_DIR,
+  DocCache,
+  createCachedProvider,
+  isServedFromCache,
+} from "./cache.js";
+import {
+  WorkerPool,
+  createPooledProvider,
+  resolvePoolOptions,
+} from "./workerPool.js";
+import {
+  generateChunkedDoc,
+  resolveChunkSize,
+  splitIntoChunks,
+} from "./chunking.js";
+import {
+  RedactionReport,
+  createRedactingProvider,
+  resolveRedactionSettings,
+} from "./redaction.js";
+import { generateApiReference } from "./openapi.js";
+import { generateArchitecture } from "./architecture.js";
+import { findMdxIssues } from "./mdx.js";
+import { configureCategories, isDocumentedCategory } from "./categories.js";
+import { TypeIndex } from "./typeReference.js";
+import {
+  generateDependencySections,
+  stripDependencySections,
+} from "./dependencyGraph.js";
+import {
+  getChangedFiles,
+  filterChanges,
+  getUpdatedPaths,
+  getRemovedPaths,
+} from "./gitChanges.js";
+
+export interface GenerateOptions {
+  // Overrides llm.provider from zen.config.mjs (e.g. "mock" for offline runs)
+  provider?: string;
+  // Set to false to ignore and not update .zen-doc/cache.json
+  cache?: boolean;
+  // Only regenerate docs for files changed since this git ref
+  since?: string;
+  // Set to false to build reference docs from the AST without any model
+  ai?: boolean;
+}
 
-export async function generateDocs(fileInfos: FileInfo[]): Promise<void> {
+export async function generateDocs(
+  fileInfos: FileInfo[],
+  options: GenerateOptions = {}
+): Promise<void> {
   const config = await loadConfig();
+  configureCategories(config);
+  if (options.provider) {
+    config.llm = { ...config.llm, provider: options.provider };
+  }
   const outputDir = `./${config.outputDir}`;
   const tempDir = `./temp-zen-docs-${Date.now()}`;
   const baseDir = `${tempDir}/content/docs`;
-  const { googleApiKey, lingoApiKey } = loadEnvFile();
 
   // Suppress any potential AI SDK logging
   process.env.AI_SDK_DEBUG = "false";
 
-  // Validate API key is available
-  if (googleApiKey === undefined) {
-    console.error(
-      chalk.red(
-        "❌ Error: GOOGLE_GENERATIVE_AI_API_KEY environment variable is not set"
-      )
-    );
-    console.error(
-      chalk.yellow("Please set your Google Gemini API key in your .env file:")
-    );
-    console.error(
-      chalk.gray("GOOGLE_GENERATIVE_AI_API_KEY=your_api_key_here")
+  // Without AI, pages are reference docs built from the parsed source
+  let provider: LLMProvider | undefined;
+  let cache: DocCache | undefined;
+  let redactions: RedactionReport | undefined;
+  if (options.ai === false) {
+    console.log(
+      chalk.blueBright("📘 AI disabled: generating reference docs from source")
     );
-    process.exit(1);
+  } else {
+    ({ provider, cache, redactions } = await connectProvider(config, options));
   }
 
   // Create Astro project with Starlight template if it doesn't exist
@@ -64,85 +117,141 @@ export async function generateDocs(fileInfos: FileInfo[]): Promise<void> {
   await createAstroProject(outputDir, config);
   astroSpinner.succeed("Astro project setup complete");
 
-  // Test AI connection
-  const aiSpinner = ora({
-    text: "Testing AI connection...",
-    color: "yellow",
-    spinner: "dots",
-  }).start();
-  try {
-    const testResult = await generateText({
-      model: google("gemini-2.0-flash"),
-      prompt: "Say 'Hello, AI is working!'",
-      maxTokens: 50,
-    });
-    aiSpinner.succeed("AI connection successful");
-  } catch (error) {
-    aiSpinner.fail("AI test failed");
-    console.error(chalk.red(`❌ AI test failed: ${error}`));
-    console.error(
-      chalk.yellow(
-        "Please check your GOOGLE_GENERATIVE_AI_API_KEY in your .env file"
-      )
+  // In incremental mode, pages of unchanged files are reused from the
+  // existing site and only changed files go through the model
+  const existingDocsDir = join(outputDir, "src", "content", "docs");
+  let updatedPaths: Set<string> | undefined;
+  if (options.since) {
+    const changes = filterChanges(
+      getChangedFiles(options.since),
+      new Set(fileInfos.map((file) => file.relativePath)),
+      [config.outputDir.replace(/^\.\//, "").replace(/\/+$/, ""), CACHE_DIR]
     );
-    process.exit(1);
+    updatedPaths = getUpdatedPaths(changes);
+    const removedPaths = getRemovedPaths(changes);
+
+    console.log(
+      chalk.blueBright(`🔀 Changes since ${chalk.bold(options.since)}: `) +
+        chalk.whiteBright(
+          `${updatedPaths.size} added or modified, ${removedPaths.size} removed`
+        )
+    );
+    for (const removedPath of removedPaths) {
+      console.log(chalk.gray(`   - ${removedPath} (page will be removed)`));
+    }
   }
+  const isUnchanged = (file: FileInfo) =>
+    updatedPaths !== undefined && !updatedPaths.has(file.relativePath);
 
-  // Filter to only show the categories we care about
-  const relevantCategories = ["components", "pages", "api", "lib"];
+  // Config files and unmatched files get no pages
   const filteredFileInfos = fileInfos.filter((file) =>
-    relevantCategories.includes(file.category)
+    isDocumentedCategory(file.category)
   );
 
+  // Commit dates for "Last updated" and the sidebar badges
+  await loadFileHistory(filteredFileInfos);
+
   // Group files by category
   const grouped = groupFilesByCategory(filteredFileInfos);
 
   // Filter out empty categories
   const nonEmptyGrouped = filterEmptyCategories(grouped);
 
+  // Type pages and the links to them from every other page
+  const typeIndex = new TypeIndex(filteredFileInfos);
+
+  // Pages of each source file, for the "Depends On" and "Used By" links
+  const pagesByPath = new Map<string, FileInfo[]>();
+  for (const file of filteredFileInfos) {
+    pagesByPath.set(file.relativePath, [
+      ...(pagesByPath.get(file.relativePath) || []),
+      file,
+    ]);
+  }
+
   // Single spinner for the whole documentation generation
+  const totalFiles = Object.values(nonEmptyGrouped).flat().length;
   const generateSpinner = ora({
-    text: "Generating documentation...",
+    text: `Generating documentation... (0/${totalFiles})`,
     color: "cyan",
     spinner: "dots",
   }).start();
 
+  const results: FileResult[] = [];
+
   try {
-    // Generate documentation for each category
-    for (const [category, files] of Object.entries(nonEmptyGrouped)) {
-      if (files.length === 0) continue;
+    // Create category directories up front so files can be written in any order
+    for (const category of Object.keys(nonEmptyGrouped)) {
+      await mkdir(join(baseDir, category), { recursive: true });
+    }
 
-      // Create category directory
-      const categoryDir = join(baseDir, category);
-      await mkdir(categoryDir, { recursive: true });
+    // Files are processed concurrently; the worker pool bounds the requests
+    const tasks = Object.entries(nonEmptyGrouped).flatMap(([category, files]) =>
+      files.map(async (file, index) => {
+        const fileName = getUniqueFileName(file, category);
+        const filePath = join(baseDir, category, fileName);
+        const existingPage = join(existingDocsDir, category, fileName);
+        const result: FileResult = { file, fileName, status: "generated" };
 
-      // Generate docs for each file in the category
-      for (const file of files) {
         try {
-          const docContent = await generateFileDoc(file, category, config);
-          const fileName = getUniqueFileName(file, category);
-          const filePath = join(categoryDir, fileName);
-
-          await writeFile(filePath, docContent, "utf-8");
-          // Print a simple line for each file
-          console.log(
-            chalk.greenBright.bold("  ✔ ") +
-            chalk.whiteBright("Generated: ") +
-            chalk.cyanBright(fileName)
-          );
+          // Type pages are rebuilt every time: their "used by" lists depend
+          // on other files. Other reused pages get their dependency sections
+          // rebuilt for the same reason.
+          if (
+            isUnchanged(file) &&
+            category !== "types" &&
+            existsSync(existingPage)
+          ) {
+            const existing = await readFile(existingPage, "utf-8");
+            await writeFile(
+              filePath,
+              typeIndex.linkTypeNames(
+                stripDependencySections(existing) +
+                  generateDependencySections(file, pagesByPath),
+                file
+              ),
+              "utf-8"
+            );
+            result.status = "reused";
+          } else {
+            const doc = await generateFileDoc(
+              file,
+              category,
+              config,
+              provider,
+              typeIndex,
+              // The category overview comes first
+              index + 1
+            );
+            const content =
+              doc.content + generateDependencySections(file, pagesByPath);
+            await writeFile(
+              filePath,
+              typeIndex.linkTypeNames(content, file),
+              "utf-8"
+            );
+
+            if (doc.error !== undefined) {
+              result.status = "fallback";
+              result.error = doc.error;
+            } else if (
+              cache &&
+              isServedFromCache(cache, { task: "doc", file, category })
+            ) {
+              result.status = "cached";
+            }
+          }
         } catch (error) {
-          console.log(
-            chalk.redBright.bold("  ✖ ") +
-            chalk.whiteBright("Failed to process: ") +
-            chalk.yellowBright(file.fileName)
-          );
-          console.error(
-            chalk.bgRed.white.bold(" ERROR "),
-            chalk.redBright(error)
-          );
+          result.status = "failed";
+          result.error = error;
         }
-      }
-    }
+
+        results.push(result);
+        generateSpinner.text = `Generating documentation... (${results.length}/${totalFiles})`;
+      })
+    );
+    await Promise.all(tasks);
+
     generateSpinner.succeed(
       chalk.greenBright.bold("🎉 Documentation generated successfully!")
     );
@@ -151,6 +260,9 @@ export async function generateDocs(fileInfos: FileInfo[]): Promise<void> {
     throw error;
   }
 
+  printFileReport(results);
+  redactions?.print();
+
   // Generate category index files
   const indexSpinner = ora({
     text: "Generating category indexes...",
@@ -160,15 +272,51 @@ export async function generateDocs(fileInfos: FileInfo[]): Promise<void> {
   await generateCategoryIndexes(nonEmptyGrouped, baseDir);
   indexSpinner.succeed("Category indexes generated");
 
+  // openapi.json and the "API Reference" pages for the documented endpoints
+  const apiReference = await generateApiReference(
+    nonEmptyGrouped.api || [],
+    fileInfos,
+    config,
+    tempDir
+  );
+
+  // Diagrams of the import graph and routes, linked from getting started
+  await generateArchitecture(filteredFileInfos, config, tempDir, provider);
+
   // Generate Astro config with Starlight sidebar
   const configSpinner = ora({
     text: "Generating Astro configuration...",
     color: "magenta",
     spinner: "dots",
   }).start();
-  await generateAstroConfig(nonEmptyGrouped, config, tempDir);
+  const reusedLabels = new Map<string, string>();
+  if (updatedPaths) {
+    const existingLabels = await readSidebarLabels(outputDir);
+    for (const [category, files] of Object.entries(nonEmptyGrouped)) {
+      for (const file of files.filter(isUnchanged)) {
+        const slug = `${category}/${getUniqueFileName(file, category).replace(
+          /\.mdx$/,
+          ""
+        )}`;
+        const label = existingLabels.get(slug);
+        if (label) reusedLabels.set(slug, label);
+      }
+    }
+  }
+  await generateAstroConfig(
+    nonEmptyGrouped,
+    config,
+    tempDir,
+    provider,
+    reusedLabels,
+    apiReference ? [apiReference] : []
+  );
   configSpinner.succeed("Astro configuration generated");
 
+  if (cache) {
+    await cache.save();
+  }
+
   // Generate custom index.mdx file
   const mainIndexSpinner = ora({
     text: "Generating main index file...",
@@ -236,30 +384,160 @@ export async function generateDocs(fileInfos: FileInfo[]): Promise<void> {
   );
   console.log(
     chalk.blueBright.bold("📁 Output directory: ") +
-    chalk.whiteBright.bold(`${outputDir}`)
+      chalk.whiteBright.bold(`${outputDir}`)
   );
 
   console.log(chalk.gray.bold(`\ncd ${outputDir}\nnpm run dev\n`));
 }
 
+/**
+ * Create the configured provider, wrap it with the worker pool, the cache and
+ * redaction, and check that it responds
+ */
+export async function connectProvider(
+  config: any,
+  options: GenerateOptions
+): Promise<{
+  provider: LLMProvider;
+  cache?: DocCache;
+  redactions?: RedactionReport;
+}> {
+  // Resolve the configured LLM provider (validates API keys up front)
+  let provider: LLMProvider;
+  try {
+    provider = createProvider(config);
+  } catch (error) {
+    console.error(
+      chalk.red(
+        `❌ Error: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+    const envName = getApiKeyEnvName(config.llm?.provider || "google");
+    if (envName) {
+      console.error(chalk.yellow("Please set your API key in your .env file:"));
+      console.error(chalk.gray(`${envName}=your_api_key_here`));
+    }
+    process.exit(1);
+  }
+
+  // Mask secrets and personal data before any source leaves the machine
+  let redactionSettings;
+  try {
+    redactionSettings = resolveRedactionSettings(config);
+  } catch (error) {
+    console.error(
+      chalk.red(
+        `❌ Error: ${error instanceof Error ? error.message : String(error)}`
+      )
+    );
+    process.exit(1);
+  }
+
+  // Every model request (docs and sidebar labels) shares one worker pool.
+  // The offline mock provider has no rate limit to respect.
+  if (provider.name !== "mock") {
+    const pool = new WorkerPool(resolvePoolOptions(config));
+    provider = createPooledProvider(provider, pool);
+  }
+
+  // Reuse previously generated docs for files that have not changed
+  const useCache = options.cache !== false && config.cache !== false;
+  const cache = useCache ? await DocCache.load() : undefined;
+  if (cache) {
+    provider = createCachedProvider(provider, cache);
+  }
+
+  // Outermost, so files answered from the cache are redacted and reported
+  // too, and the cache only ever sees redacted prompts
+  let redactions: RedactionReport | undefined;
+  if (redactionSettings) {
+    redactions = new RedactionReport();
+    provider = createRedactingProvider(provider, redactionSettings, redactions);
+  }
+
+  // Test AI connection
+  const aiSpinner = ora({
+    text: "Testing AI connection...",
+    color: "yellow",
+    spinner: "dots",
+  }).start();
+  try {
+    await provider.generate({
+      prompt: "Say 'Hello, AI is working!'",
+      maxTokens: 50,
+    });
+    aiSpinner.succeed(
+      `AI connection successful (${provider.name}: ${provider.model})`
+    );
+  } catch (error) {
+    aiSpinner.fail("AI test failed");
+    console.error(chalk.red(`❌ AI test failed: ${error}`));
+    console.error(
+      chalk.yellow(
+        "Please check the llm settings in zen.config.mjs and the API key in your .env file"
+      )
+    );
+    process.exit(1);
+  }
+
+  return { provider, cache, redactions };
+}
+
 async function generateFileDoc(
   file: FileInfo,
   category: string,
-  config: any
-): Promise<string> {
+  config: any,
+  provider: LLMProvider | undefined,
+  typeIndex: TypeIndex,
+  order: number
+): Promise<{ content: string; error?: unknown }> {
+  // Type pages are reference docs from the AST, never model output
+  if (category === "types") {
+    return {
+      content: addFrontmatter(
+        typeIndex.renderPage(file),
+        file,
+        category,
+        config,
+        order
+      ),
+    };
+  }
+
   const prompt = getCategoryPrompt(category, file, config);
 
+  if (!provider) {
+    const referenceContent = generateDocStructure(
+      file,
+      category,
+      prompt,
+      config
+    );
+    return {
+      content: addFrontmatter(referenceContent, file, category, config, order),
+    };
+  }
+
   try {
-    // Use Google Gemini to generate documentation
-    const result = await generateText({
-      model: google("gemini-2.0-flash"),
-      prompt: prompt,
-      maxTokens: 4000,
-      temperature: 0.3,
-    });
+    // Files too large for one request are documented in parts and merged
+    const chunks = splitIntoChunks(file, resolveChunkSize(config));
+    const text =
+      chunks.length > 1
+        ? await generateChunkedDoc(file, category, chunks, config, provider)
+        : await provider.generate({
+            prompt,
+            context: { task: "doc", file, category },
+          });
 
     // Add frontmatter to the AI-generated content
-    return addFrontmatter(result.text, file, category, config);
+    const content = addFrontmatter(text, file, category, config, order);
+
+    // Output the repairs could not make valid MDX gets the structural doc
+    const [issue] = await findMdxIssues(content);
+    if (issue) {
+      throw new Error(`Invalid MDX on line ${issue.line}: ${issue.message}`);
+    }
+    return { content };
   } catch (error) {
     // Fallback to structure generation
     const fallbackContent = generateDocStructure(
@@ -268,8 +546,71 @@ async function generateFileDoc(
       prompt,
       config
     );
-    return addFrontmatter(fallbackContent, file, category, config);
+    return {
+      content: addFrontmatter(fallbackContent, file, category, config, order),
+      error,
+    };
+  }
+}
+
+type FileStatus = "generated" | "cached" | "reused" | "fallback" | "failed";
+
+interface FileResult {
+  file: FileInfo;
+  fileName: string;
+  status: FileStatus;
+  error?: unknown;
+}
+
+/**
+ * Print the outcome of every file once generation is done, so per-file output
+ * does not interleave with the spinner
+ */
+function printFileReport(results: FileResult[]): void {
+  const styles: Record<FileStatus, { icon: string; label: string }> = {
+    generated: { icon: chalk.greenBright.bold("✔"), label: "Generated" },
+    cached: { icon: chalk.cyanBright.bold("✔"), label: "Cached" },
+    reused: { icon: chalk.gray.bold("✔"), label: "Unchanged" },
+    fallback: { icon: chalk.yellowBright.bold("⚠"), label: "Fallback" },
+    failed: { icon: chalk.redBright.bold("✖"), label: "Failed" },
+  };
+
+  const sorted = [...results].sort((a, b) =>
+    a.file.relativePath.localeCompare(b.file.relativePath)
+  );
+
+  for (const result of sorted) {
+    const { icon, label } = styles[result.status];
+    let line =
+      `  ${icon} ` +
+      chalk.whiteBright(`${label.padEnd(10)}`) +
+      chalk.cyanBright(result.fileName) +
+      chalk.gray(` (${result.file.relativePath})`);
+    if (result.error !== undefined) {
+      const message =
+        result.error instanceof Error
+          ? result.error.message
+          : String(result.error);
+      line += "\n      " + chalk.redBright(message);
+    }
+    console.log(line);
   }
+
+  const counts = results.reduce(
+    (acc, result) => {
+      acc[result.status] = (acc[result.status] || 0) + 1;
+      return acc;
+    },
+    {} as Partial<Record<FileStatus, number>>
+  );
+  console.log(
+    chalk.gray(
+      "   " +
+        Object.entries(counts)
+          .map(([status, count]) => `${count} ${status}`)
+          .join(", ")
+    )
+  );
 }
 
 /**
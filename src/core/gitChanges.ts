@@ -0,0 +1,209 @@
+import { execFile, execFileSync, spawn } from "child_process";
+import { createInterface } from "readline";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export interface ChangeSet {
+  ref: string;
+  added: string[];
+  modified: string[];
+  deleted: string[];
+  renamed: { from: string; to: string }[];
+}
+
+export interface FileHistory {
+  // ISO 8601 commit dates
+  created: string;
+  updated: string;
+}
+
+/**
+ * List files changed between a git ref and the working tree, relative to the
+ * current directory (forward slashes, same as FileInfo.relativePath)
+ */
+export function getChangedFiles(ref: string): ChangeSet {
+  try {
+    git(["rev-parse", "--verify", "--quiet", `${ref}^{commit}`]);
+  } catch (error) {
+    throw new Error(`Unknown git ref "${ref}"`);
+  }
+
+  const changes: ChangeSet = {
+    ref,
+    added: [],
+    modified: [],
+    deleted: [],
+    renamed: [],
+  };
+
+  // -z keeps paths with spaces or unicode unquoted
+  const fields = git([
+    "diff",
+    "--name-status",
+    "-z",
+    "-M",
+    "--relative",
+    ref,
+    "--",
+  ]).split("\0");
+
+  for (let i = 0; i < fields.length && fields[i];) {
+    const status = fields[i++];
+
+    switch (status[0]) {
+      case "A":
+        changes.added.push(fields[i++]);
+        break;
+      case "D":
+        changes.deleted.push(fields[i++]);
+        break;
+      case "R":
+        changes.renamed.push({ from: fields[i++], to: fields[i++] });
+        break;
+      case "C":
+        // Copies keep their source, so only the new path matters
+        i++;
+        changes.added.push(fields[i++]);
+        break;
+      default:
+        // M (modified), T (type change), U (unmerged)
+        changes.modified.push(fields[i++]);
+    }
+  }
+
+  // Untracked files are new since any ref
+  const untracked = git([
+    "ls-files",
+    "--others",
+    "--exclude-standard",
+    "-z",
+  ]).split("\0");
+  changes.added.push(...untracked.filter(Boolean));
+
+  return changes;
+}
+
+/**
+ * Drop changes that can't affect the docs: new or modified files that were
+ * not read (untracked build output, the docs site itself) and removed files
+ * inside generated folders such as the output directory or .zen-doc
+ */
+export function filterChanges(
+  changes: ChangeSet,
+  readPaths: Set<string>,
+  generatedDirs: string[]
+): ChangeSet {
+  const isGenerated = (path: string) =>
+    generatedDirs.some((dir) => path.startsWith(`${dir}/`));
+
+  // A file renamed to a path that isn't read is gone from the docs
+  const renamedAway = changes.renamed
+    .filter((rename) => !readPaths.has(rename.to))
+    .map((rename) => rename.from);
+
+  return {
+    ref: changes.ref,
+    added: changes.added.filter((path) => readPaths.has(path)),
+    modified: changes.modified.filter((path) => readPaths.has(path)),
+    deleted: [...changes.deleted, ...renamedAway].filter(
+      (path) => !isGenerated(path)
+    ),
+    renamed: changes.renamed.filter((rename) => readPaths.has(rename.to)),
+  };
+}
+
+/**
+ * Paths whose documentation must be regenerated
+ */
+export function getUpdatedPaths(changes: ChangeSet): Set<string> {
+  return new Set([
+    ...changes.added,
+    ...changes.modified,
+    ...changes.renamed.map((rename) => rename.to),
+  ]);
+}
+
+/**
+ * Paths whose documentation pages must be removed
+ */
+export function getRemovedPaths(changes: ChangeSet): Set<string> {
+  return new Set([
+    ...changes.deleted,
+    ...changes.renamed.map((rename) => rename.from),
+  ]);
+}
+
+/**
+ * Dates of the first and latest commit touching each of the given files,
+ * relative to the current directory. One git log is streamed for all of
+ * them, so the size of the history doesn't matter. Untracked files get no
+ * entry, and the map is empty outside a git repository.
+ */
+export async function getFileHistory(
+  relativePaths: string[]
+): Promise<Map<string, FileHistory>> {
+  const history = new Map<string, FileHistory>();
+  const wanted = new Set(relativePaths);
+  if (wanted.size === 0) return history;
+
+  // Newest first: a NUL and the commit date, then the paths it touched
+  const child = spawn(
+    "git",
+    [
+      "-c",
+      "core.quotePath=false",
+      "log",
+      "--format=%x00%cI",
+      "--name-only",
+      "--relative",
+      "--no-renames",
+    ],
+    { stdio: ["ignore", "pipe", "ignore"] }
+  );
+  const exitCode = new Promise<number | null>((resolve) => {
+    child.on("error", () => resolve(null));
+    child.on("close", resolve);
+  });
+
+  let date = "";
+  for await (const line of createInterface({ input: child.stdout })) {
+    if (line.startsWith("\0")) {
+      date = line.slice(1);
+    } else if (wanted.has(line)) {
+      const dates = history.get(line);
+      if (dates) {
+        dates.created = date;
+      } else {
+        history.set(line, { created: date, updated: date });
+      }
+    }
+  }
+
+  return (await exitCode) === 0 ? history : new Map();
+}
+
+/**
+ * Whether the whole commit history is at hand: false outside a git
+ * repository and in shallow clones, where the first commit seen is not the
+ * one that added a file
+ */
+export async function hasFullHistory(): Promise<boolean> {
+  try {
+    const { stdout } = await execFileAsync("git", [
+      "rev-parse",
+      "--is-shallow-repository",
+    ]);
+    return stdout.trim() === "false";
+  } catch (error) {
+    return false;
+  }
+}
+
+function git(args: string[]): string {
+  return execFileSync("git", args, {
+    encoding: "utf-8",
+    stdio: ["ignore", "pipe", "pipe"],
+    maxBuffer: 64 * 1024 * 1024,
+  });
+}
@@ -1,5 +1,7 @@
 import { readCodebase, categorizeFiles } from "./fileRead.js";
 import { generateDocs } from "./generateDocs.js";
+import type { GenerateOptions } from "./generateDocs.js";
 import { generateConfig } from "./genConfig.js";
 
 export { readCodebase, categorizeFiles, generateDocs, generateConfig };
+export type { GenerateOptions };
@@ -1,11 +1,12 @@
-import { icons } from "./icons.js";
 import type { FileInfo } from "./fileRead.js";
 import {
   getCategoryTitle,
   getCategoryDescription,
   filterEmptyCategories,
 } from "./fileUtils.js";
-import { addFrontmatter } from "./contentProcessing.js";
+import { renderFrontmatter } from "./contentProcessing.js";
+import { getCategory } from "./categories.js";
+import { getBuildDate } from "../utils/buildDate.js";
 
 export function generateGettingStartedMdx(
   groupedFiles: Record<string, FileInfo[]>,
@@ -15,16 +16,6 @@ export function generateGettingStartedMdx(
   const nonEmptyGrouped = filterEmptyCategories(groupedFiles);
   const categories = Object.keys(nonEmptyGrouped);
 
-  // Create a mock FileInfo object for the getting started page
-  const gettingStartedFile: FileInfo = {
-    path: "getting-started/index.md",
-    fileName: "getting-started",
-    relativePath: "getting-started/index.md",
-    content: "",
-    category: "other",
-    extension: "md",
-  };
-
   // Generate project-specific description based on available categories
   let projectType = "web application";
   let keyFeatures = [];
@@ -35,9 +26,21 @@ export function generateGettingStartedMdx(
   if (categories.includes("components")) {
     keyFeatures.push("reusable UI components");
   }
+  if (categories.includes("hooks")) {
+    keyFeatures.push("custom React hooks");
+  }
   if (categories.includes("pages")) {
     keyFeatures.push("multi-page structure");
   }
+  if (categories.includes("actions")) {
+    keyFeatures.push("server actions");
+  }
+  if (categories.includes("middleware")) {
+    keyFeatures.push("request middleware");
+  }
+  if (categories.includes("types")) {
+    keyFeatures.push("shared type definitions");
+  }
   if (categories.includes("lib")) {
     keyFeatures.push("utility functions");
   }
@@ -46,7 +49,10 @@ export function generateGettingStartedMdx(
     config.description ||
     `${config.projectName} is a ${projectType} that provides ${keyFeatures.join(", ")}. This documentation is automatically generated to help developers understand the codebase and contribute effectively.`;
 
-  let content = `# Getting Started with ${config.projectName}
+  let content = `${renderFrontmatter({
+    title: "Getting Started",
+    description: `Overview of ${config.projectName} and how its documentation is organized`,
+  })}# Getting Started with ${config.projectName}
 
 Welcome to ${config.projectName}! This guide will help you understand the project structure and get you up and running quickly.
 
@@ -56,7 +62,7 @@ ${projectDescription}
 
 ## Project Structure
 
-This project is organized into several key areas:
+This project is organized into several key areas. The [Architecture](/architecture/) page shows how they depend on each other, which components each page renders and how the API routes are laid out.
 
 ${categories
   .map((category) => {
@@ -160,10 +166,10 @@ For questions or issues related to this project:
 
 ---
 
-*Documentation generated by ZenDoc - Last updated: ${new Date().toLocaleDateString()}*
+*Documentation generated by ZenDoc - Last updated: ${getBuildDate().toLocaleDateString()}*
 `;
 
-  return addFrontmatter(content, gettingStartedFile, "other", config);
+  return content;
 }
 
 export function generateIndexMdx(
@@ -174,23 +180,21 @@ export function generateIndexMdx(
   const nonEmptyCategories = filterEmptyCategories(groupedFiles);
 
   const categories = Object.keys(nonEmptyCategories);
-  const availableIcons = icons.slice(0, categories.length);
-
-  let content = `---
-title: ${config.projectName} Documentation
-description: Comprehensive documentation for ${config.projectName}
-template: splash
-hero:
-  tagline: Project documentation for ${config.projectName}
-  image:
-    file: "https://github.com/leen-neel/zen-doc-cli/raw/master/assets/logo.png"
-  actions:
-    - text: Get Started
-      link: /getting-started/
-      icon: right-arrow
----
 
-import { Card, CardGrid } from '@astrojs/starlight/components';
+  let content = `${renderFrontmatter({
+    title: `${config.projectName} Documentation`,
+    description: `Comprehensive documentation for ${config.projectName}`,
+    template: "splash",
+    hero: {
+      tagline: `Project documentation for ${config.projectName}`,
+      image: {
+        file: "https://github.com/leen-neel/zen-doc-cli/raw/master/assets/logo.png",
+      },
+      actions: [
+        { text: "Get Started", link: "/getting-started/", icon: "right-arrow" },
+      ],
+    },
+  })}import { Card, CardGrid } from '@astrojs/starlight/components';
 
 # Welcome to ${config.projectName}
 
@@ -203,8 +207,8 @@ Welcome to the comprehensive documentation for ${config.projectName}. This docum
 `;
 
   // Add cards for each category that has files
-  categories.forEach((category, index) => {
-    const icon = availableIcons[index] || "document";
+  categories.forEach((category) => {
+    const icon = getCategory(category)?.icon || "document";
     const title = getCategoryTitle(category);
     const description = getCategoryDescription(category);
     const fileCount = nonEmptyCategories[category].length;
@@ -262,7 +266,7 @@ For questions or issues related to this documentation, please refer to the proje
 
 ---
 
-*Documentation generated by ZenDoc - Last updated: ${new Date().toLocaleDateString()}*
+*Documentation generated by ZenDoc - Last updated: ${getBuildDate().toLocaleDateString()}*
 `;
 
   return content;
@@ -0,0 +1,268 @@
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { generateText } from "ai";
+import { createHash } from "crypto";
+import { loadEnvFile } from "../utils/loadenv.js";
+import type { FileInfo } from "./fileRead.js";
+import type { SourceChunk } from "./chunking.js";
+import { generateDocStructure } from "./contentProcessing.js";
+import { getFallbackLabel } from "./fileUtils.js";
+
+export type ProviderName = "google" | "openai" | "local" | "mock";
+
+export interface LLMSettings {
+  provider: ProviderName;
+  model: string;
+  baseURL?: string;
+  apiKey?: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  abortSignal?: AbortSignal;
+  // What the prompt is about; lets offline providers answer without a model
+  context?: {
+    task: "doc" | "label" | "chunk" | "architecture";
+    file: FileInfo;
+    category: string;
+    // Part of the file the prompt covers, for oversized files
+    chunk?: SourceChunk;
+  };
+}
+
+export interface LLMProvider {
+  name: ProviderName;
+  model: string;
+  generate(request: GenerateRequest): Promise<string>;
+}
+
+/**
+ * Error raised by the HTTP backends, carrying the response status code
+ * (same shape as the AI SDK's APICallError)
+ */
+export class LLMRequestError extends Error {
+  statusCode?: number;
+  responseHeaders?: Record<string, string>;
+
+  constructor(
+    message: string,
+    statusCode?: number,
+    responseHeaders?: Record<string, string>
+  ) {
+    super(message);
+    this.name = "LLMRequestError";
+    this.statusCode = statusCode;
+    this.responseHeaders = responseHeaders;
+  }
+}
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  google: "gemini-2.0-flash",
+  openai: "gpt-4o-mini",
+  local: "llama3.1",
+  mock: "mock",
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<ProviderName, string>> = {
+  openai: "https://api.openai.com/v1",
+  // Ollama and llama.cpp both serve an OpenAI-compatible API
+  local: "http://localhost:11434/v1",
+};
+
+/**
+ * Resolve the `llm` section of zen.config.mjs into concrete provider settings
+ */
+export function resolveLLMSettings(config: any): LLMSettings {
+  const llm = config.llm || {};
+  const provider: ProviderName = llm.provider || "google";
+
+  if (!(provider in DEFAULT_MODELS)) {
+    throw new Error(
+      `Unknown LLM provider "${provider}". Expected one of: ${Object.keys(
+        DEFAULT_MODELS
+      ).join(", ")}`
+    );
+  }
+
+  const { googleApiKey, openaiApiKey } = loadEnvFile();
+  let apiKey: string | undefined = llm.apiKey;
+  if (!apiKey && provider === "google") apiKey = googleApiKey;
+  if (!apiKey && provider === "openai") apiKey = openaiApiKey;
+
+  return {
+    provider,
+    model: llm.model || DEFAULT_MODELS[provider],
+    baseURL: llm.baseURL || DEFAULT_BASE_URLS[provider],
+    apiKey,
+    temperature: llm.temperature ?? 0.3,
+    maxTokens: llm.maxTokens ?? 4000,
+  };
+}
+
+/**
+ * Create the provider every AI call site goes through
+ */
+export function createProvider(config: any): LLMProvider {
+  const settings = resolveLLMSettings(config);
+
+  switch (settings.provider) {
+    case "google":
+      return createGoogleProvider(settings);
+    case "openai":
+      return createOpenAICompatibleProvider(settings, true);
+    case "local":
+      return createOpenAICompatibleProvider(settings, false);
+    case "mock":
+      return createMockProvider(settings, config);
+  }
+}
+
+/**
+ * Name of the environment variable holding the key for a provider, if any
+ */
+export function getApiKeyEnvName(provider: ProviderName): string | undefined {
+  const envNames: Partial<Record<ProviderName, string>> = {
+    google: "GOOGLE_GENERATIVE_AI_API_KEY",
+    openai: "OPENAI_API_KEY",
+  };
+
+  return envNames[provider];
+}
+
+function createGoogleProvider(settings: LLMSettings): LLMProvider {
+  if (!settings.apiKey) {
+    throw new Error(
+      "GOOGLE_GENERATIVE_AI_API_KEY environment variable is not set"
+    );
+  }
+
+  const google = createGoogleGenerativeAI({
+    apiKey: settings.apiKey,
+    baseURL: settings.baseURL,
+  });
+
+  return {
+    name: "google",
+    model: settings.model,
+    async generate(request) {
+      const result = await generateText({
+        model: google(settings.model),
+        prompt: request.prompt,
+        maxTokens: request.maxTokens ?? settings.maxTokens,
+        temperature: request.temperature ?? settings.temperature,
+        abortSignal: request.abortSignal,
+        // The worker pool retries with backoff and counts every attempt
+        maxRetries: 0,
+      });
+      return result.text;
+    },
+  };
+}
+
+function createOpenAICompatibleProvider(
+  settings: LLMSettings,
+  requiresApiKey: boolean
+): LLMProvider {
+  if (requiresApiKey && !settings.apiKey) {
+    throw new Error(
+      "OPENAI_API_KEY environment variable is not set (or set llm.apiKey in zen.config.mjs)"
+    );
+  }
+
+  const endpoint = `${settings.baseURL!.replace(/\/+$/, "")}/chat/completions`;
+
+  return {
+    name: settings.provider,
+    model: settings.model,
+    async generate(request) {
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (settings.apiKey) {
+        headers.Authorization = `Bearer ${settings.apiKey}`;
+      }
+
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          model: settings.model,
+          messages: [{ role: "user", content: request.prompt }],
+          max_tokens: request.maxTokens ?? settings.maxTokens,
+          temperature: request.temperature ?? settings.temperature,
+        }),
+        signal: request.abortSignal,
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => "");
+        // Kept for Retry-After
+        const responseHeaders: Record<string, string> = {};
+        response.headers.forEach((value, name) => {
+          responseHeaders[name] = value;
+        });
+        throw new LLMRequestError(
+          `${settings.provider} request to ${endpoint} failed with ${
+            response.status
+          }: ${body.slice(0, 200)}`,
+          response.status,
+          responseHeaders
+        );
+      }
+
+      const data: any = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== "string") {
+        throw new LLMRequestError(
+          `${settings.provider} response from ${endpoint} had no message content`
+        );
+      }
+      return text;
+    },
+  };
+}
+
+/**
+ * Offline provider for dry runs and tests. Responses are derived only from the
+ * request, so the same codebase always produces the same documentation.
+ */
+function createMockProvider(settings: LLMSettings, config: any): LLMProvider {
+  return {
+    name: "mock",
+    model: settings.model,
+    async generate(request) {
+      const { context } = request;
+
+      if (context?.task === "doc") {
+        return generateDocStructure(
+          context.file,
+          context.category,
+          request.prompt,
+          config
+        );
+      }
+
+      if (context?.task === "label") {
+        return getFallbackLabel(context.file, context.category);
+      }
+
+      if (context?.task === "chunk" && context.chunk) {
+        const { chunk } = context;
+        return chunk.symbols.map((name) => `### \`${name}\`\n`).join("\n");
+      }
+
+      if (request.prompt.includes("Hello, AI is working!")) {
+        return "Hello, AI is working!";
+      }
+
+      const digest = createHash("sha256")
+        .update(request.prompt)
+        .digest("hex")
+        .slice(0, 12);
+      return `Mock response ${digest}`;
+    },
+  };
+}
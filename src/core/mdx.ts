@@ -0,0 +1,246 @@
+import { compile } from "@mdx-js/mdx";
+
+export interface MdxIssue {
+  line: number;
+  message: string;
+}
+
+// MDX only accepts these as self-closing tags, e.g. <br />
+const VOID_ELEMENTS = new Set([
+  "area",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Lowercase HTML tags with string attributes: <kbd>, <br/>, <a href="...">
+const HTML_TAG =
+  /^<(\/?)([a-z][a-z0-9-]*)((?:\s+[a-zA-Z_:][\w:.-]*(?:\s*=\s*(?:"[^"]*"|'[^']*'))?)*)\s*(\/?)>/;
+// <https://example.com>
+const AUTOLINK = /^<(https?:\/\/[^\s<>]+)>/;
+const FENCE = /^\s*(`{3,}|~{3,})/;
+const CLOSING_FENCE = /^\s*(`{3,}|~{3,})\s*$/;
+// MDX reads these lines as ES module statements
+const ESM_LINE = /^(import|export)(?=\s)/;
+
+interface ScanState {
+  inComment: boolean;
+  // HTML elements whose closing tag is still to come, innermost last
+  open: string[];
+}
+
+/**
+ * Make model output parse as MDX: escape stray JSX tags and braces outside
+ * code, make void elements self-closing, drop HTML comments and close
+ * unterminated code fences
+ */
+export function repairMdx(content: string): string {
+  return scanMdx(content);
+}
+
+/**
+ * Compile the page with the MDX parser, after its frontmatter. Returns the
+ * error that stops the parse, if any.
+ */
+export async function findMdxIssues(content: string): Promise<MdxIssue[]> {
+  const lines = content.split("\n");
+  // Blank frontmatter lines keep the reported line numbers right
+  if (lines[0] === "---") {
+    const end = lines.indexOf("---", 1);
+    if (end > 0) lines.fill("", 0, end + 1);
+  }
+
+  try {
+    await compile(lines.join("\n"));
+    return [];
+  } catch (error: any) {
+    return [
+      {
+        line: error?.line ?? 1,
+        message: error?.reason ?? String(error),
+      },
+    ];
+  }
+}
+
+function scanMdx(content: string): string {
+  const lines = content.split("\n");
+  const output: string[] = [];
+  const state: ScanState = { inComment: false, open: [] };
+  let fence: string | undefined;
+  let index = 0;
+
+  // Frontmatter is YAML, not MDX
+  if (lines[0] === "---") {
+    const end = lines.indexOf("---", 1);
+    if (end > 0) {
+      output.push(...lines.slice(0, end + 1));
+      index = end + 1;
+    }
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (fence) {
+      // A fence closes with the same character, repeated at least as often
+      const marker = CLOSING_FENCE.exec(line)?.[1];
+      if (marker && marker[0] === fence[0] && marker.length >= fence.length) {
+        fence = undefined;
+      }
+      output.push(line);
+      continue;
+    }
+
+    const marker = state.inComment ? undefined : FENCE.exec(line)?.[1];
+    if (marker) {
+      fence = marker;
+      output.push(line);
+      continue;
+    }
+
+    const scanned = scanLine(lines, index, state);
+    // Lines holding nothing but a removed comment are dropped
+    if (scanned.trim() || line.trim() === scanned.trim()) output.push(scanned);
+  }
+
+  // Unterminated fences run to the end of the page
+  if (fence) output.push(fence);
+
+  return output.join("\n");
+}
+
+function scanLine(lines: string[], index: number, state: ScanState): string {
+  const line = lines[index];
+  let result = "";
+  let position = 0;
+
+  // "import" or "export" at the start of a line is read as an ES module
+  const esm = state.inComment ? null : ESM_LINE.exec(line);
+  if (esm) {
+    result += `\`${esm[1]}\``;
+    position = esm[1].length;
+  }
+
+  while (position < line.length) {
+    const rest = line.slice(position);
+    const char = line[position];
+
+    if (state.inComment) {
+      const end = line.indexOf("-->", position);
+      if (end === -1) break;
+      state.inComment = false;
+      position = end + 3;
+      continue;
+    }
+
+    // Escaped characters are text already
+    if (char === "\\") {
+      result += line.slice(position, position + 2);
+      position += 2;
+      continue;
+    }
+
+    // Inline code runs to the next run of as many backticks
+    if (char === "`") {
+      const run = /^`+/.exec(rest)![0];
+      const close = findBacktickRun(line, position + run.length, run.length);
+      const end = close === -1 ? position + run.length : close + run.length;
+      result += line.slice(position, end);
+      position = end;
+      continue;
+    }
+
+    if (rest.startsWith("<!--")) {
+      // Without an end the rest of the page is text, not a comment
+      const following = [line.slice(position + 4), ...lines.slice(index + 1)];
+      if (following.some((text) => text.includes("-->"))) {
+        state.inComment = true;
+        position += 4;
+        continue;
+      }
+    }
+
+    if (char === "<") {
+      // Autolinks are read as JSX tags
+      const autolink = AUTOLINK.exec(rest);
+      if (autolink) {
+        result += `[${autolink[1]}](${autolink[1]})`;
+        position += autolink[0].length;
+        continue;
+      }
+
+      const tag = HTML_TAG.exec(rest);
+      if (tag) {
+        const [text, closing, name, attributes, selfClosing] = tag;
+        if (!closing && (selfClosing || VOID_ELEMENTS.has(name))) {
+          result += `<${name}${attributes} />`;
+          position += text.length;
+          continue;
+        }
+        // Elements may span lines, e.g. <details> around a few paragraphs
+        if (
+          !closing &&
+          hasClosingTag(lines, index, position + text.length, name)
+        ) {
+          state.open.push(name);
+          result += text;
+          position += text.length;
+          continue;
+        }
+        if (closing && state.open[state.open.length - 1] === name) {
+          state.open.pop();
+          result += text;
+          position += text.length;
+          continue;
+        }
+      }
+
+      // Anything else would be read as an unclosed JSX tag
+      result += "&lt;";
+      position++;
+      continue;
+    }
+
+    // Braces start JavaScript expressions
+    if (char === "{" || char === "}") {
+      result += `\\${char}`;
+      position++;
+      continue;
+    }
+
+    result += char;
+    position++;
+  }
+
+  return result;
+}
+
+function hasClosingTag(
+  lines: string[],
+  index: number,
+  from: number,
+  name: string
+): boolean {
+  const closingTag = `</${name}>`;
+  return (
+    lines[index].includes(closingTag, from) ||
+    lines.slice(index + 1).some((line) => line.includes(closingTag))
+  );
+}
+
+// Start of the next run of exactly `length` backticks, or -1
+function findBacktickRun(line: string, from: number, length: number): number {
+  const runs = /`+/g;
+  runs.lastIndex = from;
+  for (let match = runs.exec(line); match; match = runs.exec(line)) {
+    if (match[0].length === length) return match.index;
+  }
+  return -1;
+}
@@ -0,0 +1,338 @@
+import type { FileInfo } from "./fileRead.js";
+import { parseSource } from "./symbols.js";
+
+// middleware.ts, auth.middleware.ts, middleware/ and middlewares/ folders
+const MIDDLEWARE_PATH =
+  /(^|\/)middlewares?\/|(^|[/.])middleware\.(ts|js|mjs|cjs)$/;
+// (req, res, next) handlers and Hono's createMiddleware()
+const MIDDLEWARE_CODE =
+  /\(\s*req\b[^()]*,\s*res\b[^()]*,\s*next\b|\bcreateMiddleware\s*\(/;
+// Next.js only reads middleware.ts from the project root or src/
+const NEXT_MIDDLEWARE = /^(src\/)?middleware\.(ts|js)$/;
+
+interface MiddlewareInfo {
+  next: boolean;
+  // Sources of `config.matcher`, undefined when there is no matcher
+  matchers?: string[];
+  conditional: boolean;
+  redirects: string[];
+  rewrites: string[];
+  statuses: string[];
+  callsNext: boolean;
+}
+
+/**
+ * Whether a file is Next.js middleware or Express/Hono-style middleware
+ */
+export function isMiddlewareModule(
+  relativePath: string,
+  content: string
+): boolean {
+  return MIDDLEWARE_PATH.test(relativePath) || MIDDLEWARE_CODE.test(content);
+}
+
+/**
+ * Routes a middleware runs for: documented pages and endpoints matching its
+ * `config.matcher` for Next.js, or endpoints listing one of its exports
+ * in their middleware chain
+ */
+export function getMiddlewareRoutes(
+  file: FileInfo,
+  fileInfos: FileInfo[]
+): string[] {
+  const routed = fileInfos.filter(
+    (info) =>
+      info.route !== undefined &&
+      (info.category === "pages" || info.category === "api")
+  );
+  const routes = new Set<string>();
+
+  if (isNextMiddleware(file)) {
+    const matchers = analyzeMiddleware(file).matchers?.map(matcherToRegExp);
+    for (const info of routed) {
+      const route = info.route!;
+      if (
+        matchers &&
+        !matchers.some((matcher) => matcher?.test(route) ?? false)
+      ) {
+        continue;
+      }
+      for (const label of getRouteLabels(info)) routes.add(label);
+    }
+    return [...routes];
+  }
+
+  const names = getExportedNames(file);
+  for (const info of routed) {
+    const used = info.endpoint?.middleware.some((middleware) =>
+      names.some(
+        (name) =>
+          middleware === name ||
+          middleware === `${name}()` ||
+          middleware.startsWith(`${name}.`) ||
+          middleware.endsWith(`.${name}`)
+      )
+    );
+    if (used) {
+      for (const label of getRouteLabels(info)) routes.add(label);
+    }
+  }
+  return [...routes];
+}
+
+/**
+ * Matcher, redirects, rewrites, responses and the routes a middleware
+ * applies to
+ */
+export function generateMiddlewareSections(file: FileInfo): string {
+  const info = analyzeMiddleware(file);
+  let content = `## Middleware Details\n\n`;
+
+  if (info.next) {
+    content += `- **Runs:** Before every matching request, ahead of pages and route handlers\n`;
+    content += info.matchers
+      ? `- **Matcher:** ${list(info.matchers)}\n`
+      : `- **Matcher:** None, runs for every request\n`;
+    if (info.conditional) {
+      content += `- **Conditions:** Some matchers only apply when the \`has\`/\`missing\` header, cookie or query conditions hold\n`;
+    }
+  } else {
+    const names = getExportedNames(file);
+    content += `- **Runs:** When mounted with \`use()\` or listed on a route, in registration order\n`;
+    if (names.length > 0) content += `- **Exports:** ${list(names)}\n`;
+  }
+  if (info.redirects.length > 0) {
+    content += `- **Redirects to:** ${list(info.redirects)}\n`;
+  }
+  if (info.rewrites.length > 0) {
+    content += `- **Rewrites to:** ${list(info.rewrites)}\n`;
+  }
+  if (info.statuses.length > 0) {
+    content += `- **Responds with status:** ${list(info.statuses)}\n`;
+  }
+  if (info.callsNext) {
+    content += `- **Passes requests on** with \`${info.next ? "NextResponse.next()" : "next()"}\`\n`;
+  }
+
+  content += `\n## Applies To\n\n`;
+  const routes = file.appliesTo || [];
+  content +=
+    routes.length > 0
+      ? routes.map((route) => `- \`${route}\`\n`).join("")
+      : info.next
+        ? `No documented route matches its matcher.\n`
+        : `No documented route uses this middleware.\n`;
+
+  return content + "\n";
+}
+
+// Values holding backticks (template literals) need a longer code fence
+function list(values: string[]): string {
+  return values
+    .map((value) =>
+      value.includes("`") ? `\`\` ${value} \`\`` : `\`${value}\``
+    )
+    .join(", ");
+}
+
+// Root middleware.ts files of other servers neither import next/server nor
+// export a matcher
+function isNextMiddleware(file: FileInfo): boolean {
+  return (
+    /from\s+["']next\/server["']/.test(file.content) ||
+    (NEXT_MIDDLEWARE.test(file.relativePath) &&
+      /\bmatcher\s*:|\bas\s+middleware\b|function\s+middleware\b/.test(
+        file.content
+      ))
+  );
+}
+
+// Endpoints are listed by method, pages by path alone
+function getRouteLabels(file: FileInfo): string[] {
+  const methods = file.category === "api" ? file.httpMethods || [] : [];
+  return methods.length > 0
+    ? methods.map((method) => `${method} ${file.route}`)
+    : [file.route!];
+}
+
+// Names a route file would import the middleware under
+function getExportedNames(file: FileInfo): string[] {
+  const names = (file.symbols?.symbols || [])
+    .filter((symbol) => symbol.exported)
+    .map((symbol) =>
+      symbol.isDefault && symbol.name === "default"
+        ? file.fileName.replace(/\..*$/, "")
+        : symbol.name
+    );
+  return [...new Set(names)];
+}
+
+function analyzeMiddleware(file: FileInfo): MiddlewareInfo {
+  const info: MiddlewareInfo = {
+    next: isNextMiddleware(file),
+    conditional: false,
+    redirects: [],
+    rewrites: [],
+    statuses: [],
+    callsNext: false,
+  };
+
+  const ast = parseSource(file.content, file.extension);
+  if (!ast) return info;
+
+  const text = (node: any) => file.content.slice(node.range[0], node.range[1]);
+  const add = (values: string[], value: string) => {
+    if (!values.includes(value)) values.push(value);
+  };
+  // new URL("/login", request.url) reads as /login
+  const target = (node: any): string =>
+    node.type === "NewExpression" && node.arguments[0]
+      ? target(node.arguments[0])
+      : typeof node.value === "string"
+        ? node.value
+        : text(node);
+
+  const visit = (node: any) => {
+    if (!node || typeof node.type !== "string") return;
+
+    // export const config = { matcher: [...] }
+    if (
+      node.type === "VariableDeclarator" &&
+      node.id.name === "config" &&
+      node.init?.type === "ObjectExpression"
+    ) {
+      const matcher = node.init.properties.find(
+        (property: any) => property.key?.name === "matcher"
+      );
+      if (matcher) info.matchers = readMatchers(matcher.value, info);
+    }
+
+    if (node.type === "CallExpression") {
+      const callee = node.callee;
+      const name =
+        callee.type === "MemberExpression" ? callee.property.name : callee.name;
+      const [first] = node.arguments;
+
+      if (name === "redirect" && first) {
+        // res.redirect(302, "/login") puts the status first
+        const location =
+          node.arguments.length > 1 && typeof first.value === "number"
+            ? node.arguments[1]
+            : first;
+        add(info.redirects, target(location));
+      }
+      if (name === "rewrite" && first) add(info.rewrites, target(first));
+      if (
+        (name === "status" || name === "sendStatus") &&
+        first?.type === "Literal"
+      ) {
+        add(info.statuses, String(first.value));
+      }
+      // next() in Express and Hono, NextResponse.next() in Next.js
+      if (
+        name === "next" &&
+        (callee.type === "Identifier" || callee.object.name === "NextResponse")
+      ) {
+        info.callsNext = true;
+      }
+    }
+
+    // new NextResponse(body, { status: 401 }), NextResponse.json(body, { status })
+    if (
+      node.type === "Property" &&
+      node.key?.name === "status" &&
+      node.value.type === "Literal" &&
+      typeof node.value.value === "number"
+    ) {
+      add(info.statuses, String(node.value.value));
+    }
+
+    for (const key of Object.keys(node)) {
+      if (key === "parent" || key === "range") continue;
+      const child = node[key];
+      for (const item of Array.isArray(child) ? child : [child]) {
+        if (item && typeof item === "object") visit(item);
+      }
+    }
+  };
+  for (const statement of ast.body) visit(statement);
+
+  return info;
+}
+
+// "/a", ["/a", "/b"] or [{ source: "/a", has: [...] }]
+function readMatchers(node: any, info: MiddlewareInfo): string[] {
+  const elements = node.type === "ArrayExpression" ? node.elements : [node];
+  return elements.flatMap((element: any) => {
+    if (element?.type === "Literal" && typeof element.value === "string") {
+      return [element.value];
+    }
+    if (element?.type === "ObjectExpression") {
+      const source = element.properties.find(
+        (property: any) => property.key?.name === "source"
+      );
+      if (
+        element.properties.some((property: any) =>
+          ["has", "missing"].includes(property.key?.name)
+        )
+      ) {
+        info.conditional = true;
+      }
+      return source?.value.type === "Literal" ? [source.value.value] : [];
+    }
+    return [];
+  });
+}
+
+/**
+ * Convert a Next.js matcher (path-to-regexp syntax with inline regex groups)
+ * into a RegExp for route templates like "/users/:id"
+ */
+function matcherToRegExp(source: string): RegExp | undefined {
+  let pattern = "";
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    // (...) groups are regular expressions already
+    if (char === "(") {
+      let depth = 0;
+      let end = index;
+      for (; end < source.length; end++) {
+        if (source[end] === "\\") {
+          end++;
+        } else if (source[end] === "(") {
+          depth++;
+        } else if (source[end] === ")" && --depth === 0) {
+          break;
+        }
+      }
+      pattern += source.slice(index, end + 1);
+      index = end + 1;
+      continue;
+    }
+
+    // /:path* is zero or more segments, /:path+ one or more, /:path? optional
+    const param = /^\/:\w+([*+?])?/.exec(source.slice(index));
+    if (param) {
+      const modifier = param[1] || "";
+      pattern += modifier ? `(?:/[^/]+)${modifier}` : "/[^/]+";
+      index += param[0].length;
+      continue;
+    }
+
+    // Modifiers after a group apply to it
+    pattern +=
+      "*+?".includes(char) && source[index - 1] === ")"
+        ? char
+        : char.replace(/[.*+?^${}|[\]\\]/g, "\\$&");
+    index++;
+  }
+
+  try {
+    return new RegExp(`^${pattern}/?$`);
+  } catch (error) {
+    return undefined;
+  }
+}
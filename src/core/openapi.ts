@@ -0,0 +1,1235 @@
+import { mkdir, writeFile } from "fs/promises";
+import { join } from "path";
+import ora from "ora";
+import type { FileInfo } from "./fileRead.js";
+import { parseSource } from "./symbols.js";
+import type { TypeSymbol } from "./symbols.js";
+import {
+  getApiDescription,
+  getFileRoute,
+  getHttpMethodFromFile,
+} from "./contentProcessing.js";
+import { getUniqueFileName } from "./fileUtils.js";
+import { renderFrontmatter } from "./contentProcessing.js";
+
+export type JsonSchema = Record<string, any>;
+
+export interface OpenApiOptions {
+  title: string;
+  version: string;
+  description?: string;
+  servers: { url: string; description?: string }[];
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, any>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const STATUS_TEXT: Record<string, string> = {
+  "200": "Successful response",
+  "201": "Created",
+  "202": "Accepted",
+  "204": "No content",
+  "400": "Bad request",
+  "401": "Unauthorized",
+  "403": "Forbidden",
+  "404": "Not found",
+  "409": "Conflict",
+  "422": "Unprocessable entity",
+  "429": "Too many requests",
+  "500": "Internal server error",
+};
+
+// Methods whose input comes from the query string rather than a body
+const QUERY_METHODS = ["GET", "HEAD", "DELETE", "OPTIONS"];
+
+/**
+ * Resolve the `openapi` section of zen.config.mjs. Returns undefined when the
+ * spec is turned off.
+ */
+export function resolveOpenApiOptions(config: any): OpenApiOptions | undefined {
+  if (config.openapi === false || config.openapi?.enabled === false) {
+    return undefined;
+  }
+
+  const openapi = config.openapi || {};
+  return {
+    title: openapi.title || `${config.projectName} API`,
+    version: openapi.version || "1.0.0",
+    description: openapi.description || config.description,
+    servers: (openapi.servers || []).map(
+      (server: string | { url: string; description?: string }) =>
+        typeof server === "string" ? { url: server } : server
+    ),
+  };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from the documented API files. Request and
+ * response schemas are inferred from zod schemas and TypeScript types found
+ * anywhere in `allFiles`.
+ */
+export function buildOpenApiSpec(
+  apiFiles: FileInfo[],
+  allFiles: FileInfo[],
+  options: OpenApiOptions
+): OpenApiDocument {
+  const registry = new SchemaRegistry(allFiles);
+  const paths: OpenApiDocument["paths"] = {};
+  const operationIds = new Set<string>();
+
+  for (const file of apiFiles) {
+    const { path, parameters } = toOpenApiPath(getEndpointRoute(file));
+    const methods = file.endpoint
+      ? [file.endpoint.method]
+      : file.httpMethods?.length
+        ? file.httpMethods
+        : [getHttpMethodFromFile(file).toUpperCase()];
+
+    for (const method of methods) {
+      // `app.all()` handlers have no OpenAPI equivalent
+      if (method === "ALL") continue;
+      const key = method.toLowerCase();
+      if (paths[path]?.[key]) continue;
+
+      const source = getHandlerSource(file);
+      const operation: any = {
+        operationId: uniqueOperationId(method, path, operationIds),
+        summary: getSummary(file),
+        tags: [getTag(path)],
+        parameters: [
+          ...parameters.map((name) => ({
+            name,
+            in: "path",
+            required: true,
+            schema: { type: "string" },
+          })),
+        ],
+      };
+
+      const input = registry.inferInput(source);
+      if (input) {
+        if (QUERY_METHODS.includes(method)) {
+          operation.parameters.push(...registry.toQueryParameters(input));
+        } else {
+          operation.requestBody = {
+            required: true,
+            content: { "application/json": { schema: input } },
+          };
+        }
+      }
+      for (const name of getQueryNames(source)) {
+        if (!operation.parameters.some((param: any) => param.name === name)) {
+          operation.parameters.push({
+            name,
+            in: "query",
+            required: false,
+            schema: { type: "string" },
+          });
+        }
+      }
+      if (operation.parameters.length === 0) delete operation.parameters;
+
+      operation.responses = getResponses(
+        source,
+        method,
+        registry.inferOutput(source)
+      );
+      operation.externalDocs = {
+        description: "Endpoint documentation",
+        url: `/api/${getUniqueFileName(file, "api").replace(/\.mdx$/, "")}/`,
+      };
+
+      paths[path] = { ...paths[path], [key]: operation };
+    }
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: options.title,
+      version: options.version,
+      ...(options.description ? { description: options.description } : {}),
+    },
+    ...(options.servers.length > 0 ? { servers: options.servers } : {}),
+    paths,
+    components: { schemas: registry.schemas },
+  };
+}
+
+/**
+ * Write openapi.json to the site's public folder and the "API Reference"
+ * pages next to the docs. Returns the sidebar group for the pages.
+ */
+export async function generateApiReference(
+  apiFiles: FileInfo[],
+  allFiles: FileInfo[],
+  config: any,
+  tempDir: string
+): Promise<any | undefined> {
+  const options = resolveOpenApiOptions(config);
+  if (!options || apiFiles.length === 0) return undefined;
+
+  const spinner = ora("Generating OpenAPI spec...").start();
+  const spec = buildOpenApiSpec(apiFiles, allFiles, options);
+
+  const publicDir = join(tempDir, "public");
+  await mkdir(publicDir, { recursive: true });
+  await writeFile(
+    join(publicDir, "openapi.json"),
+    JSON.stringify(spec, null, 2),
+    "utf-8"
+  );
+
+  const referenceDir = join(tempDir, "content", "docs", "api-reference");
+  await mkdir(referenceDir, { recursive: true });
+  const pages = renderApiReference(spec);
+  for (const page of pages) {
+    await writeFile(
+      join(referenceDir, `${page.slug}.md`),
+      page.content,
+      "utf-8"
+    );
+  }
+
+  const operations = Object.values(spec.paths).reduce(
+    (count, methods) => count + Object.keys(methods).length,
+    0
+  );
+  spinner.succeed(
+    `OpenAPI spec generated (${operations} operations, ${
+      Object.keys(spec.components.schemas).length
+    } schemas)`
+  );
+
+  return {
+    label: "API Reference",
+    items: [
+      { label: "Overview", link: "/api-reference/" },
+      ...pages
+        .filter((page) => page.slug !== "index")
+        .map((page) => ({
+          label: page.title,
+          slug: `api-reference/${page.slug}`,
+        })),
+    ],
+  };
+}
+
+/**
+ * Markdown pages for the spec: an overview with the shared schemas, and one
+ * page per tag listing its operations
+ */
+export function renderApiReference(
+  spec: OpenApiDocument
+): { slug: string; title: string; content: string }[] {
+  const byTag = new Map<string, [string, string, any][]>();
+  for (const [path, methods] of Object.entries(spec.paths)) {
+    for (const [method, operation] of Object.entries(methods)) {
+      const tag = operation.tags[0];
+      byTag.set(tag, [...(byTag.get(tag) || []), [method, path, operation]]);
+    }
+  }
+
+  const tagPages = [...byTag.keys()].sort().map((tag) => ({
+    slug: slugify(tag),
+    title: toTitle(tag),
+    count: byTag.get(tag)!.length,
+    content: renderTagPage(tag, byTag.get(tag)!),
+  }));
+
+  let overview = `${renderFrontmatter({
+    title: "API Reference",
+    description: `OpenAPI ${spec.openapi} reference for ${spec.info.title}`,
+    sidebar: { order: 0 },
+  })}# API Reference
+
+${spec.info.description ? `${spec.info.description}\n\n` : ""}The full spec is served at [\`/openapi.json\`](/openapi.json). Generate a typed client from it, e.g.:
+
+\`\`\`bash
+npx openapi-typescript http://localhost:4321/openapi.json -o api.d.ts
+\`\`\`
+
+## Endpoints
+
+`;
+  for (const page of tagPages) {
+    overview += `- [${page.title}](./${page.slug}/) - ${page.count} operations\n`;
+  }
+
+  const schemas = Object.entries(spec.components.schemas);
+  if (schemas.length > 0) {
+    overview += `\n## Schemas\n`;
+    for (const [name, schema] of schemas) {
+      overview += `\n### ${name}\n\n${renderSchema(schema)}`;
+    }
+  }
+
+  return [
+    { slug: "index", title: "API Reference", content: overview },
+    ...tagPages.map(({ slug, title, content }) => ({ slug, title, content })),
+  ];
+}
+
+function renderTagPage(
+  tag: string,
+  operations: [string, string, any][]
+): string {
+  let content = renderFrontmatter({
+    title: toTitle(tag),
+    description: `${toTitle(tag)} endpoints from the OpenAPI spec`,
+  });
+
+  for (const [method, path, operation] of operations) {
+    content += `## \`${method.toUpperCase()} ${path}\`\n\n`;
+    if (operation.summary) content += `${operation.summary}\n\n`;
+
+    if (operation.parameters?.length) {
+      content += `**Parameters:**\n`;
+      for (const param of operation.parameters) {
+        content += `- **${param.name}** (\`${describeSchema(param.schema)}\`, ${
+          param.in
+        }, ${param.required ? "required" : "optional"})${
+          param.description ? ` - ${param.description}` : ""
+        }\n`;
+      }
+      content += "\n";
+    }
+
+    const body = operation.requestBody?.content["application/json"].schema;
+    if (body) {
+      content += `**Request body** (\`application/json\`): ${schemaLink(body)}\n\n`;
+    }
+
+    content += `**Responses:**\n`;
+    for (const [status, response] of Object.entries<any>(operation.responses)) {
+      const schema = response.content?.["application/json"].schema;
+      content += `- **${status}** - ${response.description}${
+        schema ? `: ${schemaLink(schema)}` : ""
+      }\n`;
+    }
+
+    content += `\n[Endpoint documentation](${operation.externalDocs.url})\n\n`;
+  }
+
+  return content;
+}
+
+// Links named schemas to their section on the overview page
+function schemaLink(schema: JsonSchema): string {
+  const label = `\`${describeSchema(schema)}\``;
+  const ref = schema.$ref ?? schema.items?.$ref;
+  if (!ref) return label;
+  return `[${label}](/api-reference/#${ref.split("/").pop().toLowerCase()})`;
+}
+
+function renderSchema(schema: JsonSchema): string {
+  if (!schema.properties) {
+    return `Type: \`${describeSchema(schema)}\`\n`;
+  }
+
+  const required: string[] = schema.required || [];
+  return (
+    Object.entries<JsonSchema>(schema.properties)
+      .map(
+        ([name, property]) =>
+          `- **${name}** (\`${describeSchema(property)}\`, ${
+            required.includes(name) ? "required" : "optional"
+          })${property.description ? ` - ${property.description}` : ""}\n`
+      )
+      .join("") || "Type: `object`\n"
+  );
+}
+
+/**
+ * Short TypeScript-like rendering of a schema, e.g. `User[]` or `"a" | "b"`
+ */
+export function describeSchema(schema: JsonSchema = {}): string {
+  if (schema.$ref) return schema.$ref.split("/").pop();
+  if (schema.enum) {
+    return schema.enum
+      .map((value: unknown) => JSON.stringify(value))
+      .join(" | ");
+  }
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.anyOf || schema.oneOf) {
+    return (schema.anyOf || schema.oneOf).map(describeSchema).join(" | ");
+  }
+  if (schema.allOf) return schema.allOf.map(describeSchema).join(" & ");
+  if (Array.isArray(schema.type)) return schema.type.join(" | ");
+  if (schema.type === "array") {
+    return schema.prefixItems
+      ? `[${schema.prefixItems.map(describeSchema).join(", ")}]`
+      : `${describeSchema(schema.items)}[]`;
+  }
+  if (schema.type === "object" && schema.additionalProperties) {
+    return `Record<string, ${describeSchema(schema.additionalProperties)}>`;
+  }
+  if (schema.format) return `${schema.type} (${schema.format})`;
+  return schema.type || "any";
+}
+
+// ---------------------------------------------------------------------------
+// Schema inference
+// ---------------------------------------------------------------------------
+
+/**
+ * Turns zod schemas and TypeScript types into JSON Schema, collecting every
+ * named one under components.schemas
+ */
+class SchemaRegistry {
+  schemas: Record<string, JsonSchema> = {};
+  // zod schema or TS type -> component name
+  private names = new Map<string, string>();
+  private zodSchemas = new Map<string, any>();
+  private zodNamespaces = new Set<string>();
+  private types = new Map<string, TypeSymbol>();
+
+  constructor(files: FileInfo[]) {
+    for (const file of files) {
+      for (const symbol of file.symbols?.symbols || []) {
+        if (
+          (symbol.kind === "interface" ||
+            symbol.kind === "type" ||
+            symbol.kind === "enum") &&
+          !this.types.has(symbol.name)
+        ) {
+          this.types.set(symbol.name, symbol);
+        }
+      }
+      if (/["']zod["']/.test(file.content)) this.collectZodSchemas(file);
+    }
+  }
+
+  /**
+   * Schema of the input a handler validates or casts: `schema.parse(body)`,
+   * `zValidator("json", schema)`, `(await req.json()) as CreateUser`
+   */
+  inferInput(source: string): JsonSchema | undefined {
+    const validator =
+      /zValidator\(\s*["'](?:json|form|query)["']\s*,\s*(\w+)/.exec(source);
+    if (validator) return this.refZod(validator[1]);
+
+    for (const match of source.matchAll(
+      /\b(\w+)\.(?:safeParse|parse|safeParseAsync|parseAsync)\(/g
+    )) {
+      if (isOutputName(match[1])) continue;
+      const schema = this.refZod(match[1]);
+      if (schema) return schema;
+    }
+
+    const cast =
+      /(?:\.json\(\)\)?|\.body|\.query)\s+as\s+([\w.]+(?:\[\])?)/.exec(
+        source
+      ) ||
+      /:\s*([\w.]+(?:\[\])?)\s*=\s*(?:await\s+)?[\w.]+\.(?:json\(\)|body|query)\b/.exec(
+        source
+      );
+    return cast ? this.fromNamedType(cast[1]) : undefined;
+  }
+
+  /**
+   * Schema of what a handler returns: `NextResponse<User>`, `res.json<User>()`,
+   * `json(user as User)`, a typed variable passed to json(), or a parsed
+   * response schema
+   */
+  inferOutput(source: string): JsonSchema | undefined {
+    for (const match of source.matchAll(
+      /\b(\w+)\.(?:safeParse|parse|safeParseAsync|parseAsync)\(/g
+    )) {
+      if (!isOutputName(match[1])) continue;
+      const schema = this.refZod(match[1]);
+      if (schema) return schema;
+    }
+
+    const typed =
+      /\b(?:NextResponse|Response|TypedResponse)<\s*([\w.]+(?:\[\])?)\s*>/.exec(
+        source
+      ) ||
+      /\.json<\s*([\w.]+(?:\[\])?)\s*>\(/.exec(source) ||
+      /\.json\(\s*\w+\s+(?:as|satisfies)\s+([\w.]+(?:\[\])?)/.exec(source);
+    if (typed) {
+      const schema = this.fromNamedType(typed[1]);
+      if (schema) return schema;
+    }
+
+    for (const match of source.matchAll(/\.json\(\s*(\w+)\s*[,)]/g)) {
+      const declared = new RegExp(
+        `\\b(?:const|let|var)\\s+${match[1]}\\s*:\\s*([\\w.]+(?:\\[\\])?)\\s*=`
+      ).exec(source);
+      const schema = declared && this.fromNamedType(declared[1]);
+      if (schema) return schema;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Query parameters from an object schema, for GET handlers that validate
+   * their query string
+   */
+  toQueryParameters(schema: JsonSchema): any[] {
+    const resolved = this.resolve(schema);
+    const required: string[] = resolved.required || [];
+    return Object.entries<JsonSchema>(resolved.properties || {}).map(
+      ([name, property]) => ({
+        name,
+        in: "query",
+        required: required.includes(name),
+        schema: property,
+        ...(property.description ? { description: property.description } : {}),
+      })
+    );
+  }
+
+  // Only named types and schemas are worth a reference; `string` says nothing
+  private fromNamedType(name: string): JsonSchema | undefined {
+    const array = name.endsWith("[]");
+    const base = array ? name.slice(0, -2) : name;
+    const schema = this.refType(base) ?? this.refZod(base);
+    if (!schema) return undefined;
+    return array ? { type: "array", items: schema } : schema;
+  }
+
+  private resolve(schema: JsonSchema): JsonSchema {
+    if (!schema.$ref) return schema;
+    return this.schemas[schema.$ref.split("/").pop()] || {};
+  }
+
+  private component(
+    key: string,
+    preferred: string,
+    build: () => JsonSchema
+  ): JsonSchema {
+    let name = this.names.get(key);
+    if (!name) {
+      name = preferred;
+      for (let i = 2; name in this.schemas; i++) name = `${preferred}${i}`;
+      this.names.set(key, name);
+      // Placeholder first, so self-referencing types terminate
+      this.schemas[name] = {};
+      this.schemas[name] = build();
+    }
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  // ---- TypeScript types ----
+
+  private refType(name: string): JsonSchema | undefined {
+    const symbol = this.types.get(name);
+    if (!symbol) return undefined;
+    return this.component(`type:${name}`, name, () =>
+      this.fromTypeSymbol(symbol)
+    );
+  }
+
+  private fromTypeSymbol(symbol: TypeSymbol): JsonSchema {
+    const description = symbol.jsdoc?.description;
+    const withDescription = (schema: JsonSchema) =>
+      description ? { ...schema, description } : schema;
+
+    if (symbol.kind === "enum") {
+      const values = symbol.members.map((member, i) =>
+        member.defaultValue !== undefined
+          ? parseLiteral(member.defaultValue)
+          : i
+      );
+      return withDescription({
+        type: values.every((value) => typeof value === "string")
+          ? "string"
+          : "number",
+        enum: values,
+      });
+    }
+
+    // type Role = "admin" | "user", type Id = string, ...
+    if (symbol.kind === "type" && symbol.members.length === 0) {
+      const body = symbol.definition
+        .replace(/^[^=]*=/, "")
+        .replace(/;\s*$/, "");
+      return withDescription(this.fromTypeText(body));
+    }
+
+    const object = this.fromMembers(symbol.members);
+    const parents = /^interface\s+\w+(?:<[^>]*>)?\s+extends\s+([^{]+)\{/.exec(
+      symbol.definition
+    );
+    if (!parents) return withDescription(object);
+
+    return withDescription({
+      allOf: [
+        ...splitTopLevel(parents[1], ",").map((parent) =>
+          this.fromTypeText(parent)
+        ),
+        object,
+      ],
+    });
+  }
+
+  private fromMembers(
+    members: {
+      name: string;
+      type?: string;
+      optional: boolean;
+      description?: string;
+    }[]
+  ): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const member of members) {
+      // Methods aren't part of the JSON payload
+      if (member.type && /^\(.*\)\s*=>/.test(member.type)) continue;
+      const schema = member.type ? this.fromTypeText(member.type) : {};
+      properties[member.name] = member.description
+        ? { ...schema, description: member.description }
+        : schema;
+      if (!member.optional) required.push(member.name);
+    }
+
+    return {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    };
+  }
+
+  private fromTypeText(text: string): JsonSchema {
+    let type = text.trim();
+    while (isWrapped(type, "(", ")")) type = type.slice(1, -1).trim();
+
+    const union = splitTopLevel(type, "|");
+    if (union.length > 1) {
+      const nullable = union.includes("null");
+      const variants = union.filter(
+        (variant) => variant !== "null" && variant !== "undefined"
+      );
+      const literals = variants.map((variant) =>
+        /^(["'`])(.*)\1$/.exec(variant)
+      );
+      const schema = literals.every(Boolean)
+        ? { type: "string", enum: literals.map((literal) => literal![2]) }
+        : variants.length === 1
+          ? this.fromTypeText(variants[0])
+          : { anyOf: variants.map((variant) => this.fromTypeText(variant)) };
+      return nullable ? withNull(schema) : schema;
+    }
+
+    const intersection = splitTopLevel(type, "&");
+    if (intersection.length > 1) {
+      return { allOf: intersection.map((part) => this.fromTypeText(part)) };
+    }
+
+    if (type.endsWith("[]")) {
+      return { type: "array", items: this.fromTypeText(type.slice(0, -2)) };
+    }
+
+    if (isWrapped(type, "{", "}")) {
+      return this.fromMembers(
+        splitTopLevel(type.slice(1, -1), ";,\n").flatMap((member) => {
+          const match =
+            /^(?:readonly\s+)?["']?([\w$-]+)["']?(\?)?\s*:\s*([\s\S]+)$/.exec(
+              member
+            );
+          return match
+            ? [{ name: match[1], optional: !!match[2], type: match[3] }]
+            : [];
+        })
+      );
+    }
+
+    const generic = /^([\w.]+)\s*<([\s\S]*)>$/.exec(type);
+    if (generic) {
+      const [, name, args] = generic;
+      const params = splitTopLevel(args, ",");
+      switch (name) {
+        case "Array":
+        case "ReadonlyArray":
+        case "Set":
+          return { type: "array", items: this.fromTypeText(params[0]) };
+        case "Record":
+        case "Map":
+          return {
+            type: "object",
+            additionalProperties: this.fromTypeText(params[1] || "unknown"),
+          };
+        case "Promise":
+        case "Readonly":
+        case "Required":
+          return this.fromTypeText(params[0]);
+        case "Partial": {
+          const { required, ...rest } = this.resolve(
+            this.fromTypeText(params[0])
+          );
+          return rest;
+        }
+        case "z.infer":
+        case "z.input":
+        case "z.output": {
+          const schema = /^typeof\s+(\w+)$/.exec(params[0]);
+          return (schema && this.refZod(schema[1])) || {};
+        }
+      }
+      return this.refType(name) ?? {};
+    }
+
+    const literal = /^(["'`])(.*)\1$/.exec(type);
+    if (literal) return { type: "string", const: literal[2] };
+    if (/^-?\d+(\.\d+)?$/.test(type))
+      return { type: "number", const: Number(type) };
+    if (type === "true" || type === "false") {
+      return { type: "boolean", const: type === "true" };
+    }
+
+    switch (type) {
+      case "string":
+        return { type: "string" };
+      case "number":
+        return { type: "number" };
+      case "bigint":
+        return { type: "integer" };
+      case "boolean":
+        return { type: "boolean" };
+      case "null":
+        return { type: "null" };
+      case "Date":
+        return { type: "string", format: "date-time" };
+      case "object":
+        return { type: "object" };
+    }
+
+    return this.refType(type) ?? this.refZod(type) ?? {};
+  }
+
+  // ---- zod ----
+
+  private collectZodSchemas(file: FileInfo): void {
+    const ast = parseSource(file.content, file.extension);
+    if (!ast) return;
+
+    for (const statement of ast.body) {
+      if (
+        statement.type === "ImportDeclaration" &&
+        statement.source.value === "zod"
+      ) {
+        for (const specifier of statement.specifiers) {
+          this.zodNamespaces.add(specifier.local.name);
+        }
+      }
+
+      const declaration =
+        statement.type === "ExportNamedDeclaration"
+          ? statement.declaration
+          : statement;
+      if (declaration?.type !== "VariableDeclaration") continue;
+
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type !== "Identifier" || !declarator.init) continue;
+        const name = declarator.id.name;
+        if (
+          this.isZodExpression(declarator.init) &&
+          !this.zodSchemas.has(name)
+        ) {
+          this.zodSchemas.set(name, declarator.init);
+        }
+      }
+    }
+  }
+
+  // z.object(...), z.string().min(1), userSchema.extend(...)
+  private isZodExpression(node: any): boolean {
+    let current = node;
+    while (
+      current.type === "CallExpression" ||
+      current.type === "MemberExpression"
+    ) {
+      current =
+        current.type === "CallExpression" ? current.callee : current.object;
+    }
+    return (
+      current.type === "Identifier" &&
+      (this.zodNamespaces.has(current.name) ||
+        this.zodSchemas.has(current.name))
+    );
+  }
+
+  private refZod(name: string): JsonSchema | undefined {
+    const node = this.zodSchemas.get(name);
+    if (!node) return undefined;
+    const preferred =
+      name
+        .replace(/(Schema|Validator)$/i, "")
+        .replace(/^\w/, (char) => char.toUpperCase()) || name;
+    return this.component(
+      `zod:${name}`,
+      preferred,
+      () => this.fromZod(node).schema
+    );
+  }
+
+  private fromZod(node: any): { schema: JsonSchema; optional: boolean } {
+    const plain = (schema: JsonSchema) => ({ schema, optional: false });
+
+    if (node?.type === "Identifier") return plain(this.refZod(node.name) ?? {});
+    if (
+      node?.type !== "CallExpression" ||
+      node.callee.type !== "MemberExpression"
+    ) {
+      return plain({});
+    }
+
+    const method = node.callee.property.name;
+    const target = node.callee.object;
+    const args = node.arguments;
+
+    if (this.isZodNamespace(target)) {
+      if (method === "optional")
+        return { ...this.fromZod(args[0]), optional: true };
+      return plain(this.zodConstructor(method, args));
+    }
+
+    const inner = this.fromZod(target);
+    const schema: JsonSchema = { ...inner.schema };
+    const value = literalValue(args[0]);
+    const bound = (min: boolean) => {
+      if (schema.type === "string") return min ? "minLength" : "maxLength";
+      if (schema.type === "array") return min ? "minItems" : "maxItems";
+      return min ? "minimum" : "maximum";
+    };
+
+    switch (method) {
+      case "optional":
+        return { schema, optional: true };
+      case "nullish":
+        return { schema: withNull(schema), optional: true };
+      case "nullable":
+        return { schema: withNull(schema), optional: inner.optional };
+      case "default":
+        return { schema: { ...schema, default: value }, optional: true };
+      case "describe":
+        schema.description = value;
+        break;
+      case "min":
+      case "gte":
+      case "nonempty":
+        schema[bound(true)] = method === "nonempty" ? 1 : value;
+        break;
+      case "max":
+      case "lte":
+        schema[bound(false)] = value;
+        break;
+      case "length":
+        schema[bound(true)] = value;
+        schema[bound(false)] = value;
+        break;
+      case "gt":
+        schema.exclusiveMinimum = value;
+        break;
+      case "lt":
+        schema.exclusiveMaximum = value;
+        break;
+      case "positive":
+        schema.exclusiveMinimum = 0;
+        break;
+      case "nonnegative":
+        schema.minimum = 0;
+        break;
+      case "int":
+        schema.type = "integer";
+        break;
+      case "email":
+      case "uuid":
+        schema.format = method;
+        break;
+      case "url":
+        schema.format = "uri";
+        break;
+      case "datetime":
+        schema.format = "date-time";
+        break;
+      case "regex":
+        if (args[0]?.regex) schema.pattern = args[0].regex.pattern;
+        break;
+      case "array":
+        return plain({ type: "array", items: schema });
+      case "or":
+        return plain({ anyOf: [schema, this.fromZod(args[0]).schema] });
+      case "and":
+      case "merge":
+        return plain({ allOf: [schema, this.fromZod(args[0]).schema] });
+      case "extend":
+        return plain({ allOf: [schema, this.zodObject(args[0])] });
+      case "partial": {
+        const { required, ...rest } = this.resolve(schema);
+        return plain(rest);
+      }
+      case "pick":
+      case "omit": {
+        const resolved = this.resolve(schema);
+        const keys = (args[0]?.properties || []).map(
+          (property: any) => property.key.name ?? property.key.value
+        );
+        const keep = (name: string) =>
+          keys.includes(name) === (method === "pick");
+        return plain({
+          ...resolved,
+          properties: Object.fromEntries(
+            Object.entries(resolved.properties || {}).filter(([name]) =>
+              keep(name)
+            )
+          ),
+          required: (resolved.required || []).filter(keep),
+        });
+      }
+      case "strict":
+        schema.additionalProperties = false;
+        break;
+      // refine, transform, trim, ... don't change the shape
+    }
+
+    return { schema, optional: inner.optional };
+  }
+
+  private zodConstructor(method: string, args: any[]): JsonSchema {
+    switch (method) {
+      case "string":
+        return { type: "string" };
+      case "number":
+        return { type: "number" };
+      case "bigint":
+        return { type: "integer" };
+      case "boolean":
+        return { type: "boolean" };
+      case "date":
+        return { type: "string", format: "date-time" };
+      case "null":
+        return { type: "null" };
+      case "literal": {
+        const value = literalValue(args[0]);
+        return {
+          type: typeof value === "string" ? "string" : typeof value,
+          const: value,
+        };
+      }
+      case "enum":
+        return args[0]?.type === "ArrayExpression"
+          ? { type: "string", enum: args[0].elements.map(literalValue) }
+          : { type: "string" };
+      case "nativeEnum":
+        return (
+          (args[0]?.type === "Identifier" && this.refType(args[0].name)) || {}
+        );
+      case "array":
+        return { type: "array", items: this.fromZod(args[0]).schema };
+      case "object":
+        return this.zodObject(args[0]);
+      case "union":
+        return {
+          anyOf: (args[0]?.elements || []).map(
+            (element: any) => this.fromZod(element).schema
+          ),
+        };
+      case "discriminatedUnion":
+        return {
+          oneOf: (args[1]?.elements || []).map(
+            (element: any) => this.fromZod(element).schema
+          ),
+        };
+      case "intersection":
+        return { allOf: args.map((arg) => this.fromZod(arg).schema) };
+      case "record":
+        return {
+          type: "object",
+          additionalProperties: this.fromZod(args[args.length - 1]).schema,
+        };
+      case "tuple":
+        return {
+          type: "array",
+          prefixItems: (args[0]?.elements || []).map(
+            (element: any) => this.fromZod(element).schema
+          ),
+        };
+      case "nullable":
+        return withNull(this.fromZod(args[0]).schema);
+    }
+    return {};
+  }
+
+  private zodObject(node: any): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const property of node?.properties || []) {
+      if (property.type !== "Property" || property.computed) continue;
+      const name = property.key.name ?? property.key.value;
+      const { schema, optional } = this.fromZod(property.value);
+      properties[name] = schema;
+      if (!optional) required.push(name);
+    }
+
+    return {
+      type: "object",
+      properties,
+      ...(required.length > 0 ? { required } : {}),
+    };
+  }
+
+  // z, or z.coerce for z.coerce.number()
+  private isZodNamespace(node: any): boolean {
+    if (node.type === "Identifier") return this.zodNamespaces.has(node.name);
+    return (
+      node.type === "MemberExpression" &&
+      node.object.type === "Identifier" &&
+      this.zodNamespaces.has(node.object.name) &&
+      node.property.name === "coerce"
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+// Folder-based routes keep their app/pages prefix and route/index name
+function getEndpointRoute(file: FileInfo): string {
+  if (file.route) return file.route;
+  return (
+    getFileRoute(file)
+      .replace(/^\/(?:src\/)?(?:app|pages)(?=\/)/, "")
+      .replace(/\/(?:route|index)$/, "") || "/"
+  );
+}
+
+// :id, :id?, *slug and [id] segments -> {id}
+function toOpenApiPath(route: string): { path: string; parameters: string[] } {
+  const parameters: string[] = [];
+  const segments = route.split("/").map((segment) => {
+    const match =
+      /^:(\w+)\??$/.exec(segment) ||
+      /^\*(\w*)$/.exec(segment) ||
+      /^\[(?:\.\.\.)?(\w+)\]$/.exec(segment);
+    if (!match) return segment;
+
+    const name = match[1] || "wildcard";
+    if (!parameters.includes(name)) parameters.push(name);
+    return `{${name}}`;
+  });
+
+  return { path: segments.join("/") || "/", parameters };
+}
+
+// Handler code for one endpoint of a file serving several, else the file
+function getHandlerSource(file: FileInfo): string {
+  const { endpoint, symbols } = file;
+  if (!endpoint || !symbols?.statements.length) return file.content;
+
+  const handlerLine = symbols.symbols.find(
+    (symbol) => symbol.name === endpoint.handler
+  )?.line;
+  const lines = [endpoint.line, handlerLine].filter(
+    (line): line is number => line !== undefined
+  );
+
+  const parts = symbols.statements
+    .filter((statement) =>
+      lines.some(
+        (line) => line >= statement.startLine && line <= statement.endLine
+      )
+    )
+    .map((statement) => file.content.slice(statement.start, statement.end));
+  return parts.length > 0 ? parts.join("\n") : file.content;
+}
+
+function getSummary(file: FileInfo): string {
+  const handler = file.symbols?.symbols.find(
+    (symbol) => symbol.name === file.endpoint?.handler
+  );
+  const description = handler?.jsdoc?.description.split("\n")[0];
+  if (description) return description;
+
+  const generated = getApiDescription(file);
+  return generated.includes(" - ")
+    ? generated.slice(generated.indexOf(" - ") + 3)
+    : generated;
+}
+
+// searchParams.get("q"), req.query.page, c.req.query("sort"),
+// const { page } = req.query
+function getQueryNames(source: string): string[] {
+  const names = new Set<string>();
+  const patterns = [
+    /searchParams\.get\(\s*["'`](\w+)["'`]/g,
+    /\b(?:req|request)\.query\.(\w+)/g,
+    /\b(?:req|request)\.query\[\s*["'`](\w+)["'`]\s*\]/g,
+    /\.req\.query\(\s*["'`](\w+)["'`]/g,
+  ];
+  for (const pattern of patterns) {
+    for (const match of source.matchAll(pattern)) names.add(match[1]);
+  }
+
+  for (const match of source.matchAll(
+    /\{([^{}]+)\}\s*=\s*(?:req|request)\.query\b/g
+  )) {
+    for (const name of match[1].split(",")) {
+      const key = /^\s*(\w+)/.exec(name);
+      if (key) names.add(key[1]);
+    }
+  }
+
+  return [...names];
+}
+
+function getResponses(
+  source: string,
+  method: string,
+  output: JsonSchema | undefined
+): Record<string, any> {
+  const statuses = [
+    ...new Set(
+      [...source.matchAll(/(?:status\s*:\s*|\.status\(\s*)(\d{3})\b/g)].map(
+        (match) => match[1]
+      )
+    ),
+  ];
+  const success =
+    statuses.find((status) => status.startsWith("2")) ||
+    (method === "POST" && /\b201\b/.test(source) ? "201" : "200");
+
+  const responses: Record<string, any> = {
+    [success]: {
+      description: STATUS_TEXT[success] || "Successful response",
+      ...(output && success !== "204"
+        ? { content: { "application/json": { schema: output } } }
+        : {}),
+    },
+  };
+  for (const status of statuses) {
+    if (status.startsWith("2") || responses[status]) continue;
+    responses[status] = { description: STATUS_TEXT[status] || "Error" };
+  }
+  return responses;
+}
+
+function uniqueOperationId(
+  method: string,
+  path: string,
+  used: Set<string>
+): string {
+  const words = path
+    .split("/")
+    .filter(Boolean)
+    .map((segment) =>
+      segment.startsWith("{")
+        ? `By${capitalize(segment.slice(1, -1))}`
+        : capitalize(
+            segment.replace(/[^a-zA-Z0-9]+(.)?/g, (_, char) =>
+              char ? char.toUpperCase() : ""
+            )
+          )
+    );
+  const base = `${method.toLowerCase()}${words.join("")}`;
+
+  let id = base;
+  for (let i = 2; used.has(id); i++) id = `${base}${i}`;
+  used.add(id);
+  return id;
+}
+
+// First path segment that names a resource: /api/users/{id} -> users
+function getTag(path: string): string {
+  const segment = path
+    .split("/")
+    .find(
+      (part) =>
+        part && part !== "api" && !part.startsWith("{") && !/^v\d+$/.test(part)
+    );
+  return segment || "general";
+}
+
+// Response schemas are validated too; their names say which side they're on
+function isOutputName(name: string): boolean {
+  return /(Response|Output|Result)(Schema)?$/i.test(name);
+}
+
+function withNull(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === "string") {
+    return { ...schema, type: [schema.type, "null"] };
+  }
+  return { anyOf: [schema, { type: "null" }] };
+}
+
+function literalValue(node: any): any {
+  if (node?.type === "Literal") return node.value;
+  if (node?.type === "UnaryExpression" && node.operator === "-") {
+    return -literalValue(node.argument);
+  }
+  if (node?.type === "TemplateLiteral" && node.expressions.length === 0) {
+    return node.quasis[0].value.cooked;
+  }
+  return undefined;
+}
+
+function parseLiteral(text: string): string | number {
+  const quoted = /^(["'`])(.*)\1$/.exec(text.trim());
+  if (quoted) return quoted[2];
+  const number = Number(text);
+  return Number.isNaN(number) ? text : number;
+}
+
+// Split on separators outside brackets and quotes
+function splitTopLevel(text: string, separators: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = "";
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote && text[i - 1] !== "\\") quote = "";
+    } else if (char === '"' || char === "'" || char === "`") {
+      quote = char;
+    } else if ("<({[".includes(char)) {
+      depth++;
+    } else if (")}]".includes(char) || (char === ">" && text[i - 1] !== "=")) {
+      depth--;
+    } else if (depth === 0 && separators.includes(char)) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+// "(a | b)" is wrapped, "(a) | (b)" is not
+function isWrapped(text: string, open: string, close: string): boolean {
+  if (!text.startsWith(open) || !text.endsWith(close)) return false;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === open) depth++;
+    else if (text[i] === close) depth--;
+    if (depth === 0 && i < text.length - 1) return false;
+  }
+  return true;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+function toTitle(tag: string): string {
+  return tag.split(/[-_]/).filter(Boolean).map(capitalize).join(" ");
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
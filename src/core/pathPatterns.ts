@@ -0,0 +1,42 @@
+import { join } from "path";
+import { statSync } from "fs";
+import { Ignore, hasMagic } from "glob";
+
+/**
+ * Turn a config entry into a glob: plain directories ("src/components",
+ * "docs/") match everything below them
+ */
+export function toGlob(pattern: string): string {
+  const normalized = pattern.replace(/\\/g, "/").replace(/^\.\//, "");
+
+  if (normalized.endsWith("/")) {
+    return `${normalized}**`;
+  }
+
+  if (!hasMagic(normalized)) {
+    try {
+      if (statSync(join(process.cwd(), normalized)).isDirectory()) {
+        return `${normalized.replace(/\/+$/, "")}/**`;
+      }
+    } catch (error) {
+      // Missing paths are matched literally
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Test paths relative to the project root against config globs. `include`,
+ * `exclude` and category `paths` all match through here, so a pattern means
+ * the same thing everywhere.
+ */
+export function createPathMatcher(
+  patterns: string[]
+): (relativePath: string) => boolean {
+  // glob's matcher for its `ignore` option, which includes dot files
+  const { relative, absolute } = new Ignore(patterns.map(toGlob), {});
+  const matchers = [...relative, ...absolute];
+  return (relativePath) =>
+    matchers.some((matcher) => matcher.match(relativePath));
+}
@@ -1,4 +1,15 @@
 import type { FileInfo } from "./fileRead.js";
+import type { SourceChunk } from "./chunking.js";
+import type { CodeSymbol, FileSymbols, MemberSymbol } from "./symbols.js";
+import { getSymbolSignature } from "./symbols.js";
+import { getCategory } from "./categories.js";
+
+// Bump whenever prompt wording changes so cached documentation is regenerated
+export const PROMPT_VERSION = 5;
+
+// Keep the imported signatures a small part of the prompt
+const MAX_PROMPT_DEPENDENCIES = 10;
+const MAX_PROMPT_DEPENDENCY_SYMBOLS = 15;
 
 export function getCategoryPrompt(
   category: string,
@@ -12,18 +23,33 @@ export function getCategoryPrompt(
 PROJECT: ${config.projectName}
 AUTHOR: ${config.author}
 FILE: ${file.relativePath}
-CONTENT:
+${formatRouteForPrompt(file)}${formatAppliesToForPrompt(file)}CONTENT:
 \`\`\`${getLanguageFromExtension(file.extension)}
 ${file.content}
 \`\`\`
-
+${formatSymbolsForPrompt(file.symbols)}${formatDependenciesForPrompt(file)}
 Create detailed, well-structured documentation that follows best practices. Focus on clarity, completeness, and practical usage examples.
 
 REQUIREMENTS:`;
 
+  return `${basePrompt}${getCategoryRequirements(category, file, config)}`;
+}
+
+// Numbered requirements and output format for each category's page; a
+// `prompt` from the category config replaces the built-in one
+function getCategoryRequirements(
+  category: string,
+  file: FileInfo,
+  config: any
+): string {
+  const template = getCategory(category)?.prompt;
+  if (template) {
+    return `\n${fillPromptTemplate(template, category, file, config)}`;
+  }
+
   switch (category) {
     case "components":
-      return `${basePrompt}
+      return `
 1. **Component Overview**: Explain what this component does and its purpose
 2. **Props Interface**: Document all props with types, descriptions, and default values
 3. **Usage Examples**: Provide 2-3 practical usage examples with different prop combinations
@@ -45,7 +71,7 @@ OUTPUT FORMAT:
 - Use bullet points for all structured data (no tables)`;
 
     case "pages":
-      return `${basePrompt}
+      return `
 1. **Page Purpose**: Explain what this page does and when users see it
 2. **Routing**: Document the route path and any dynamic segments
 3. **Data Fetching**: Explain any data fetching, API calls, or state management
@@ -63,7 +89,7 @@ OUTPUT FORMAT:
 - Include error handling scenarios`;
 
     case "api":
-      return `${basePrompt}
+      return `
 1. **Endpoint Overview**: Explain what this API endpoint does
 2. **HTTP Method**: Document the HTTP method (GET, POST, PUT, DELETE, etc.)
 3. **Request Format**: Document request body, query parameters, and headers
@@ -87,8 +113,64 @@ OUTPUT FORMAT:
   - **name** (\`string\`, optional) - The user's display name
 - Use bullet points for all structured data (no tables)`;
 
+    case "hooks":
+      return `
+1. **Hook Purpose**: Explain what the hook does and which component logic it encapsulates
+2. **Parameters**: Document every argument with its type, default value and whether it is required
+3. **Return Value**: Describe the returned tuple or object shape element by element, and when each value changes
+4. **Dependencies**: List the React hooks, contexts and custom hooks it relies on, any provider that must wrap the caller, and the dependency arrays of its effects and memoized values
+5. **SSR Safety**: State whether the hook can run during server rendering and which browser APIs it touches
+6. **Rules of Hooks**: Note caveats such as top-level calls only, stable arguments and client-only usage
+7. **Usage Examples**: Provide 2-3 examples inside function components
+
+OUTPUT FORMAT:
+- Use clear markdown with proper headings
+- Include the TypeScript signature of every hook
+- Show the return shape as a typed code block, e.g. \`const [value, setValue] = useToggle(false)\`
+- Use beautiful bullet points for parameters and returned values (no tables):
+  **Returns:**
+  - **user** (\`User | null\`) - The signed-in user, null while loading
+  - **login** (\`(email: string) => Promise<void>\`) - Starts a sign-in
+- Use bullet points for all structured data (no tables)`;
+
+    case "actions":
+      return `
+1. **Action Purpose**: Explain what each server action does and which forms or components call it
+2. **Inputs**: Document every argument and FormData field it reads, with types and validation rules
+3. **Return Value**: Describe the returned data or error state, e.g. for \`useActionState\`
+4. **Side Effects**: List database writes, external calls and cookies it changes
+5. **Revalidation**: Document every \`revalidatePath\`/\`revalidateTag\` call and which pages it refreshes
+6. **Redirects**: Document every \`redirect\`/\`notFound\` call and when it happens
+7. **Security**: Note authentication and authorization checks; actions are public POST endpoints
+8. **Usage Examples**: Show calling each action from \`<form action={...}>\` and from a client component
+
+OUTPUT FORMAT:
+- Use clear markdown with proper headings
+- Document each action like an endpoint: signature, inputs, result, revalidation and redirects
+- Use beautiful bullet points for inputs (no tables):
+  **Inputs:**
+  - **title** (\`string\`, required) - FormData field with the post title
+  - **tags** (\`string[]\`, optional) - FormData field, read with \`getAll\`
+- Use bullet points for all structured data (no tables)`;
+
+    case "middleware":
+      return `
+1. **Middleware Purpose**: Explain what the middleware checks or changes for each request
+2. **Matcher**: Document the matcher config (or where it is mounted) and list the routes it applies to
+3. **Behavior**: Describe the redirects, rewrites, headers, cookies and early responses it produces, with status codes
+4. **Request Flow**: Explain when it passes the request on and where it runs relative to other middleware and handlers
+5. **Configuration**: List environment variables and options it reads
+6. **Edge Cases**: Note static assets, API routes or methods it deliberately skips
+7. **Examples**: Show requests that pass through and requests that are redirected or rejected
+
+OUTPUT FORMAT:
+- Use clear markdown with proper headings
+- Include the matcher config in a code block
+- Use bullet points for the routes it applies to and for every response it can return
+- Use bullet points for all structured data (no tables)`;
+
     case "lib":
-      return `${basePrompt}
+      return `
 1. **Function Purpose**: Explain what this utility/function does
 2. **Parameters**: Document all parameters with types and descriptions
 3. **Return Value**: Document the return type and what it contains
@@ -111,8 +193,234 @@ OUTPUT FORMAT:
 - Use bullet points for all structured data (no tables)`;
 
     default:
-      return basePrompt;
+      return `
+1. **Overview**: Explain what this file does and where it fits in the project
+2. **Exports**: Document every export with its signature, parameters, and return value
+3. **Usage Examples**: Provide 2-3 practical usage examples
+4. **Dependencies**: List any internal or external dependencies
+5. **Best Practices**: Suggest usage patterns and common pitfalls to avoid
+
+OUTPUT FORMAT:
+- Use clear markdown with proper headings
+- Include code blocks with syntax highlighting
+- Use bullet points for all structured data (no tables)`;
+  }
+}
+
+// {{name}}, {{file}}, {{category}} and {{projectName}} placeholders
+function fillPromptTemplate(
+  template: string,
+  category: string,
+  file: FileInfo,
+  config: any
+): string {
+  const values: Record<string, string> = {
+    name: file.fileName.replace(/\.[^/.]+$/, ""),
+    file: file.relativePath,
+    category: getCategory(category)?.title || category,
+    projectName: config.projectName,
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key] : match
+  );
+}
+
+/**
+ * Prompt for one chunk of a file too large for a single request. Each part is
+ * documented on its own and merged afterwards, so no page-level sections.
+ */
+export function getChunkPrompt(
+  category: string,
+  file: FileInfo,
+  chunk: SourceChunk,
+  config: any
+): string {
+  const symbols = file.symbols && {
+    ...file.symbols,
+    symbols: file.symbols.symbols.filter((symbol) =>
+      chunk.symbols.includes(symbol.name)
+    ),
+  };
+
+  return `You are an expert documentation generator for the ${
+    config.projectName
+  } project. The ${category} file ${file.relativePath} is too large to document at once, so it is split into ${
+    chunk.total
+  } parts. This is part ${chunk.index} of ${chunk.total} (lines ${chunk.startLine}-${chunk.endLine}).
+
+FILE EXPORTS: ${file.symbols?.exports.join(", ") || "unknown"}
+CONTENT (part ${chunk.index}/${chunk.total}):
+\`\`\`${getLanguageFromExtension(file.extension)}
+${chunk.content}
+\`\`\`
+${formatSymbolsForPrompt(symbols)}${formatDependenciesForPrompt(file)}
+REQUIREMENTS:
+1. Document only the declarations in this part; other parts are documented separately
+2. Use one \`###\` heading per declaration and no page title, overview or summary
+3. For each declaration give its purpose, parameters or props, return value and a short usage example
+4. Use bullet points for all structured data (no tables)`;
+}
+
+/**
+ * Prompt that combines the per-chunk docs of a large file into one page
+ */
+export function getMergePrompt(
+  category: string,
+  file: FileInfo,
+  chunks: SourceChunk[],
+  parts: string[],
+  config: any
+): string {
+  const partList = chunks
+    .map(
+      (chunk, i) =>
+        `--- PART ${chunk.index}/${chunk.total} (lines ${chunk.startLine}-${chunk.endLine}) ---\n${parts[i].trim()}`
+    )
+    .join("\n\n");
+
+  return `You are an expert documentation generator for the ${
+    config.projectName
+  } project. The ${category} file ${file.relativePath} was documented in ${
+    chunks.length
+  } parts. Merge them into one coherent documentation page.
+
+PROJECT: ${config.projectName}
+AUTHOR: ${config.author}
+FILE: ${file.relativePath}
+${formatSymbolsForPrompt(file.symbols)}
+PARTS:
+${partList}
+
+MERGE RULES:
+- Start with a single overview of the whole file, then document every declaration from the parts
+- Use \`##\` for page sections and \`###\` for individual declarations, consistently across all parts
+- Remove repeated introductions and duplicate sections; keep every example and detail
+- Do not invent APIs that are not in the parts or the extracted symbols
+
+REQUIREMENTS:${getCategoryRequirements(category, file, config)}`;
+}
+
+// Route and methods resolved from the framework's routing rules
+function formatRouteForPrompt(file: FileInfo): string {
+  if (!file.route) return "";
+
+  const methods = file.httpMethods?.length
+    ? `${file.httpMethods.join(", ")} `
+    : "";
+  const route = `ROUTE: ${methods}${file.route}\n`;
+  if (!file.endpoint) return route;
+
+  // One page per registered route; the rest of the file is only context
+  const { endpoint } = file;
+  const details = [
+    `DEFINED AT: line ${endpoint.line}`,
+    endpoint.handler ? `HANDLER: ${endpoint.handler}` : "",
+    endpoint.middleware.length
+      ? `MIDDLEWARE (in order): ${endpoint.middleware.join(", ")}`
+      : "",
+  ].filter(Boolean);
+  return `${route}${details.join("\n")}
+Document only the ${endpoint.method} ${endpoint.path} endpoint. Other routes in this file are context, not part of this page.
+`;
+}
+
+// Routes resolved for a middleware file, so the model doesn't guess them
+function formatAppliesToForPrompt(file: FileInfo): string {
+  if (!file.appliesTo) return "";
+  return file.appliesTo.length > 0
+    ? `APPLIES TO: ${file.appliesTo.join(", ")}\n`
+    : "APPLIES TO: no documented routes\n";
+}
+
+/**
+ * Summarize the parsed symbols so the model documents real signatures
+ * instead of guessing them from the source
+ */
+export function formatSymbolsForPrompt(symbols?: FileSymbols): string {
+  const exported = symbols?.symbols.filter((symbol) => symbol.exported) || [];
+  if (exported.length === 0) return "";
+
+  const lines = exported.map((symbol) => formatSymbol(symbol));
+
+  return `
+EXTRACTED SYMBOLS (parsed from the source; use these exact names, signatures, types and default values):
+${lines.join("\n")}
+`;
+}
+
+// Imported project modules are documented on their own pages, so only their
+// signatures are given, to explain how this file uses them
+function formatDependenciesForPrompt(file: FileInfo): string {
+  const dependencies = (file.dependencies || []).filter(
+    (dependency) => dependency.symbols.length > 0
+  );
+  if (dependencies.length === 0) return "";
+
+  const modules = dependencies.slice(0, MAX_PROMPT_DEPENDENCIES).map(
+    (dependency) =>
+      `- ${dependency.relativePath}\n${dependency.symbols
+        .slice(0, MAX_PROMPT_DEPENDENCY_SYMBOLS)
+        .map(
+          (symbol) =>
+            `  ${getSymbolSignature(symbol).replace(/\s*\n\s*/g, " ")}`
+        )
+        .join("\n")}`
+  );
+
+  return `
+IMPORTED MODULES (signatures of the project code this file uses; explain how it is used, do not document it again):
+${modules.join("\n")}
+`;
+}
+
+function formatSymbol(symbol: CodeSymbol): string {
+  const exportLabel = symbol.isDefault ? "default export" : "export";
+  let text = `- ${symbol.kind} ${symbol.name} (${exportLabel}, line ${symbol.line}): ${getSymbolSignature(
+    symbol
+  ).replace(/\s*\n\s*/g, " ")}`;
+
+  if (symbol.jsdoc?.description) {
+    text += `\n  Description: ${symbol.jsdoc.description.replace(/\s*\n\s*/g, " ")}`;
+  }
+  for (const tag of symbol.jsdoc?.tags || []) {
+    const tagText = [tag.type && `{${tag.type}}`, tag.name, tag.text]
+      .filter(Boolean)
+      .join(" ");
+    text += `\n  @${tag.tag} ${tagText.replace(/\s*\n\s*/g, " ")}`;
+  }
+
+  if (symbol.kind === "component" && symbol.props.length > 0) {
+    text += `\n  Props${symbol.propsType ? ` (${symbol.propsType})` : ""}:`;
+    text += symbol.props.map((prop) => `\n    ${formatMember(prop)}`).join("");
   }
+  if (
+    (symbol.kind === "interface" ||
+      symbol.kind === "type" ||
+      symbol.kind === "enum") &&
+    symbol.members.length > 0
+  ) {
+    text += symbol.members
+      .map((member) => `\n    ${formatMember(member)}`)
+      .join("");
+  }
+  if (symbol.kind === "class") {
+    text += symbol.methods
+      .map((method) => `\n    method ${method.signature}`)
+      .join("");
+    text += symbol.properties
+      .map((property) => `\n    property ${formatMember(property)}`)
+      .join("");
+  }
+
+  return text;
+}
+
+function formatMember(member: MemberSymbol): string {
+  let text = `${member.name}${member.optional ? "?" : ""}`;
+  if (member.type) text += `: ${member.type}`;
+  if (member.defaultValue) text += ` (default: ${member.defaultValue})`;
+  if (member.description) text += ` - ${member.description}`;
+  return text;
 }
 
 function getLanguageFromExtension(extension: string): string {
@@ -0,0 +1,283 @@
+import type { FileInfo } from "./fileRead.js";
+import { parseSource } from "./symbols.js";
+
+// `export function useAuth`, `export const useCart = ...`, `export { useTheme }`
+const HOOK_EXPORT =
+  /export\s+(?:default\s+)?(?:(?:async\s+)?function\s*\*?\s*|(?:const|let|var)\s+)use[A-Z0-9]|export\s*\{[^}]*\buse[A-Z0-9]/;
+// Components and classes make a module more than a hooks module
+const PASCAL_EXPORT =
+  /export\s+(?:default\s+)?(?:function|const|let|var|class)\s+[A-Z]/;
+
+const HOOK_NAME = /^use[A-Z0-9]/;
+
+// Hooks taking a dependency array as their second argument
+const DEPENDENCY_HOOKS = [
+  "useEffect",
+  "useLayoutEffect",
+  "useInsertionEffect",
+  "useMemo",
+  "useCallback",
+  "useImperativeHandle",
+];
+
+const BROWSER_GLOBALS = new Set([
+  "window",
+  "document",
+  "localStorage",
+  "sessionStorage",
+  "navigator",
+  "matchMedia",
+]);
+
+interface HookInfo {
+  name: string;
+  returns?: string;
+  hooksUsed: string[];
+  dependencies: { hook: string; deps?: string }[];
+  // Browser globals read while rendering, outside effects and callbacks
+  renderGlobals: string[];
+  // Browser globals read inside effects and callbacks only
+  deferredGlobals: string[];
+  guarded: boolean;
+}
+
+/**
+ * Whether a module's exports are custom hooks rather than components or
+ * plain utilities
+ */
+export function isHookModule(content: string): boolean {
+  return HOOK_EXPORT.test(content) && !PASCAL_EXPORT.test(content);
+}
+
+/**
+ * Return shape, hooks used, dependency arrays and SSR safety of every
+ * exported hook, read from the AST
+ */
+export function generateHookSections(file: FileInfo): string {
+  const hooks = analyzeHooks(file);
+  if (hooks.length === 0) return "";
+
+  let content = `## Hook Details\n\n`;
+  for (const hook of hooks) {
+    content += `### \`${hook.name}\`\n\n`;
+    if (hook.returns) content += `- **Returns:** ${hook.returns}\n`;
+    if (hook.hooksUsed.length > 0) {
+      content += `- **Hooks used:** ${hook.hooksUsed
+        .map((name) => `\`${name}\``)
+        .join(", ")}\n`;
+    }
+    if (hook.dependencies.length > 0) {
+      content += `- **Dependencies:**\n`;
+      content += hook.dependencies
+        .map(({ hook: name, deps }) =>
+          deps
+            ? `  - \`${name}\` - \`${deps}\`\n`
+            : `  - \`${name}\` - no dependency array, runs after every render\n`
+        )
+        .join("");
+    }
+    content += `- **SSR safety:** ${getSsrNote(hook)}\n\n`;
+  }
+
+  const plural = hooks.length > 1;
+  content += `## Rules of Hooks\n\n`;
+  content += `- Call ${plural ? "these hooks" : "the hook"} only at the top level of a function component or another custom hook, never inside loops, conditions or after an early return\n`;
+  content += `- Call ${plural ? "them" : "it"} in the same order on every render so React can match state between renders\n`;
+  const hasDependencies = hooks.some((hook) =>
+    hook.dependencies.some(({ deps }) => deps && deps !== "[]")
+  );
+  if (hasDependencies) {
+    content += `- Memoize objects and callbacks passed as arguments, or the dependency arrays change on every render\n`;
+  }
+  if (!/^\s*["']use client["']/.test(file.content)) {
+    content += `- In the Next.js App Router, only call ${plural ? "them" : "it"} from files marked \`"use client"\`\n`;
+  }
+
+  return content + "\n";
+}
+
+function getSsrNote(hook: HookInfo): string {
+  const list = (names: string[]) =>
+    names.map((name) => `\`${name}\``).join(", ");
+
+  if (hook.renderGlobals.length > 0) {
+    return hook.guarded
+      ? `Reads ${list(hook.renderGlobals)} while rendering behind a \`typeof window\` check; make sure the server and client render the same output`
+      : `Reads ${list(hook.renderGlobals)} while rendering, so it throws during server rendering; call it from client-only components`;
+  }
+  if (hook.deferredGlobals.length > 0) {
+    return `Uses ${list(hook.deferredGlobals)} only inside effects and callbacks, so it is safe to render on the server`;
+  }
+  return "No browser APIs used";
+}
+
+function analyzeHooks(file: FileInfo): HookInfo[] {
+  const ast = parseSource(file.content, file.extension);
+  if (!ast) return [];
+
+  const exported = new Set(file.symbols?.exports || []);
+  return findHookFunctions(ast.body)
+    .filter(([name, , isDefault]) => isDefault || exported.has(name))
+    .map(([name, fn]) => analyzeHook(name, fn, file.content));
+}
+
+// Top-level functions named like hooks, declared or assigned
+function findHookFunctions(body: any[]): [string, any, boolean][] {
+  const found: [string, any, boolean][] = [];
+
+  for (const statement of body) {
+    const isDefault = statement.type === "ExportDefaultDeclaration";
+    const node =
+      statement.type === "ExportNamedDeclaration" ||
+      statement.type === "ExportDefaultDeclaration"
+        ? statement.declaration
+        : statement;
+    if (!node) continue;
+
+    if (node.type === "FunctionDeclaration" && HOOK_NAME.test(node.id?.name)) {
+      found.push([node.id.name, node, isDefault]);
+    }
+    if (node.type === "VariableDeclaration") {
+      for (const declarator of node.declarations) {
+        const init = declarator.init;
+        if (
+          HOOK_NAME.test(declarator.id?.name) &&
+          (init?.type === "ArrowFunctionExpression" ||
+            init?.type === "FunctionExpression")
+        ) {
+          found.push([declarator.id.name, init, false]);
+        }
+      }
+    }
+  }
+
+  return found;
+}
+
+function analyzeHook(name: string, fn: any, content: string): HookInfo {
+  const text = (node: any) => content.slice(node.range[0], node.range[1]);
+  const hook: HookInfo = {
+    name,
+    hooksUsed: [],
+    dependencies: [],
+    renderGlobals: [],
+    deferredGlobals: [],
+    guarded: /typeof\s+(window|document)\b/.test(text(fn)),
+  };
+  const returns: any[] = [];
+
+  // depth counts the nested functions around a node: effects, callbacks and
+  // handlers don't run while rendering
+  const visit = (node: any, depth: number) => {
+    if (!node || typeof node.type !== "string") return;
+
+    if (node.type === "ReturnStatement" && depth === 0 && node.argument) {
+      returns.push(node.argument);
+    }
+
+    if (node.type === "CallExpression") {
+      const callee =
+        node.callee.type === "MemberExpression"
+          ? node.callee.property
+          : node.callee;
+      if (callee?.type === "Identifier" && HOOK_NAME.test(callee.name)) {
+        const used =
+          callee.name === "useContext" && node.arguments[0]
+            ? `useContext(${text(node.arguments[0])})`
+            : callee.name;
+        if (!hook.hooksUsed.includes(used)) hook.hooksUsed.push(used);
+
+        if (DEPENDENCY_HOOKS.includes(callee.name)) {
+          const deps =
+            node.arguments[callee.name === "useImperativeHandle" ? 2 : 1];
+          hook.dependencies.push({
+            hook: callee.name,
+            deps: deps ? text(deps) : undefined,
+          });
+        }
+      }
+    }
+
+    if (node.type === "Identifier" && BROWSER_GLOBALS.has(node.name)) {
+      const globals = depth === 0 ? hook.renderGlobals : hook.deferredGlobals;
+      if (!globals.includes(node.name)) globals.push(node.name);
+    }
+
+    const nested =
+      node !== fn &&
+      (node.type === "ArrowFunctionExpression" ||
+        node.type === "FunctionExpression" ||
+        node.type === "FunctionDeclaration");
+
+    for (const key of Object.keys(node)) {
+      if (key === "parent" || key === "range") continue;
+      // Property keys and member names aren't references to globals
+      if (
+        (node.type === "MemberExpression" &&
+          key === "property" &&
+          !node.computed) ||
+        (node.type === "Property" && key === "key" && !node.computed)
+      ) {
+        continue;
+      }
+      const child = node[key];
+      for (const item of Array.isArray(child) ? child : [child]) {
+        if (item && typeof item === "object") {
+          visit(item, nested ? depth + 1 : depth);
+        }
+      }
+    }
+  };
+  visit(fn.body, 0);
+
+  // Concise arrow bodies are the return value
+  const returned =
+    fn.body.type === "BlockStatement" ? returns[returns.length - 1] : fn.body;
+  hook.returns = describeReturn(returned, fn, text);
+  hook.deferredGlobals = hook.deferredGlobals.filter(
+    (name) => !hook.renderGlobals.includes(name)
+  );
+
+  return hook;
+}
+
+function describeReturn(
+  node: any,
+  fn: any,
+  text: (node: any) => string
+): string | undefined {
+  if (fn.returnType) {
+    return `\`${text(fn.returnType.typeAnnotation)}\``;
+  }
+  if (!node) return undefined;
+
+  if (node.type === "TSAsExpression" || node.type === "TSSatisfiesExpression") {
+    return describeReturn(node.expression, fn, text);
+  }
+  if (node.type === "ArrayExpression") {
+    return `tuple \`[${node.elements
+      .map((element: any) => (element ? summarize(element, text) : ""))
+      .join(", ")}]\``;
+  }
+  if (node.type === "ObjectExpression") {
+    const keys = node.properties.map((property: any) =>
+      property.type === "SpreadElement"
+        ? `...${text(property.argument)}`
+        : text(property.key)
+    );
+    return `object with ${keys.map((key: string) => `\`${key}\``).join(", ")}`;
+  }
+  return `\`${summarize(node, text)}\``;
+}
+
+// Inline functions and long expressions are shortened to keep bullets readable
+function summarize(node: any, text: (node: any) => string): string {
+  if (
+    node.type === "ArrowFunctionExpression" ||
+    node.type === "FunctionExpression"
+  ) {
+    return "function";
+  }
+  const value = text(node).replace(/\s+/g, " ");
+  return value.length > 40 ? `${value.slice(0, 37)}...` : value;
+}
@@ -0,0 +1,205 @@
+import chalk from "chalk";
+import type { LLMProvider, GenerateRequest } from "./llm.js";
+
+export interface RedactionRule {
+  name: string;
+  pattern: RegExp;
+  // Rewrites a match; defaults to replacing it entirely
+  mask?: (match: string, ...groups: string[]) => string;
+}
+
+export interface RedactionSettings {
+  rules: RedactionRule[];
+  // Minimum Shannon entropy (bits per character) of a quoted token to be
+  // treated as a secret; 0 disables the check
+  entropyThreshold: number;
+}
+
+// Distinct values redacted per rule
+export type RedactionFindings = Map<string, Set<string>>;
+
+const BUILTIN_RULES: RedactionRule[] = [
+  {
+    name: "private key",
+    pattern:
+      /-----BEGIN [A-Z ]*PRIVATE KEY-----[\s\S]*?-----END [A-Z ]*PRIVATE KEY-----/g,
+  },
+  {
+    name: "JWT",
+    pattern: /\beyJ[\w-]{10,}\.[\w-]{10,}\.[\w-]{10,}/g,
+  },
+  { name: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: "GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,})\b/g,
+  },
+  { name: "Slack token", pattern: /\bxox[abprs]-[A-Za-z0-9-]{10,}/g },
+  { name: "Stripe key", pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}/g },
+  { name: "Google API key", pattern: /\bAIza[\w-]{35}/g },
+  { name: "API key", pattern: /\bsk-(?:proj-|ant-)?[\w-]{20,}/g },
+  {
+    // Keep the scheme and host so the prompt still says what is connected to
+    name: "URL credentials",
+    pattern: /\b([a-z][a-z0-9+.-]*:\/\/)[^\s:@/'"`]+:[^\s@/'"`]+@/gi,
+    mask: (_match, scheme) => `${scheme}[REDACTED:URL credentials]@`,
+  },
+  {
+    // Placeholder domains and asset names like logo@2x.png are left alone
+    name: "email",
+    pattern:
+      /\b[\w.%+-]+@(?!example\.(?:com|org|net)\b)[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.(?!(?:png|jpe?g|gif|svg|webp|js|ts|css)\b)[A-Za-z]{2,}\b/g,
+  },
+];
+
+/**
+ * Resolve the `redaction` section of zen.config.mjs. Returns undefined when
+ * redaction is turned off.
+ */
+export function resolveRedactionSettings(
+  config: any
+): RedactionSettings | undefined {
+  const redaction = config.redaction || {};
+  if (redaction.enabled === false) return undefined;
+
+  const custom: RedactionRule[] = (redaction.patterns || []).map(
+    (entry: string | RegExp | { name?: string; pattern: string | RegExp }) => {
+      const { name, pattern } =
+        typeof entry === "string" || entry instanceof RegExp
+          ? { name: "custom", pattern: entry }
+          : entry;
+      const source = pattern instanceof RegExp ? pattern.source : pattern;
+      const flags = pattern instanceof RegExp ? pattern.flags : "";
+
+      try {
+        return {
+          name: name || "custom",
+          pattern: new RegExp(
+            source,
+            flags.includes("g") ? flags : `${flags}g`
+          ),
+        };
+      } catch (error) {
+        throw new Error(`Invalid redaction pattern "${source}": ${error}`);
+      }
+    }
+  );
+
+  return {
+    rules: [...BUILTIN_RULES, ...custom],
+    entropyThreshold: redaction.entropyThreshold ?? 4,
+  };
+}
+
+/**
+ * Mask secrets and personal data in a piece of text
+ */
+export function redactSecrets(
+  text: string,
+  settings: RedactionSettings
+): { text: string; findings: RedactionFindings } {
+  const findings: RedactionFindings = new Map();
+  const record = (name: string, value: string) => {
+    if (!findings.has(name)) findings.set(name, new Set());
+    findings.get(name)!.add(value);
+  };
+
+  let redacted = text;
+  for (const { name, pattern, mask } of settings.rules) {
+    redacted = redacted.replace(pattern, (match, ...groups) => {
+      record(name, match);
+      return mask ? mask(match, ...groups) : `[REDACTED:${name}]`;
+    });
+  }
+
+  if (settings.entropyThreshold > 0) {
+    // Long random-looking string literals are likely tokens or passwords
+    redacted = redacted.replace(
+      /(["'`])([A-Za-z0-9+/=_.-]{20,})\1/g,
+      (match, quote: string, value: string) => {
+        if (!looksRandom(value, settings.entropyThreshold)) return match;
+        record("high-entropy string", value);
+        return `${quote}[REDACTED:high-entropy string]${quote}`;
+      }
+    );
+  }
+
+  return { text: redacted, findings };
+}
+
+/**
+ * Collects what was redacted from each file across all of its prompts
+ */
+export class RedactionReport {
+  private files = new Map<string, RedactionFindings>();
+
+  record(relativePath: string, findings: RedactionFindings): void {
+    if (findings.size === 0) return;
+
+    const merged = this.files.get(relativePath) || new Map();
+    for (const [name, values] of findings) {
+      merged.set(name, new Set([...(merged.get(name) || []), ...values]));
+    }
+    this.files.set(relativePath, merged);
+  }
+
+  print(): void {
+    if (this.files.size === 0) return;
+
+    console.log(
+      chalk.bold.bgMagenta.white(
+        ` Redacted before prompting (${this.files.size} files) `
+      )
+    );
+    const paths = [...this.files.keys()].sort();
+    for (const path of paths) {
+      const summary = [...this.files.get(path)!]
+        .map(([name, values]) => `${values.size} ${name}`)
+        .join(", ");
+      console.log(
+        chalk.magentaBright("  🔒 ") +
+          chalk.cyanBright(path) +
+          chalk.gray(`: ${summary}`)
+      );
+    }
+    console.log();
+  }
+}
+
+/**
+ * Redact every prompt before it reaches the provider
+ */
+export function createRedactingProvider(
+  provider: LLMProvider,
+  settings: RedactionSettings,
+  report: RedactionReport
+): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate(request: GenerateRequest) {
+      const { text, findings } = redactSecrets(request.prompt, settings);
+      if (request.context) {
+        report.record(request.context.file.relativePath, findings);
+      }
+      return provider.generate({ ...request, prompt: text });
+    },
+  };
+}
+
+// Mixed letters and digits with high entropy; filters out words, identifiers
+// and repeated characters
+function looksRandom(value: string, threshold: number): boolean {
+  if (!/[a-z]/i.test(value) || !/\d/.test(value)) return false;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy >= threshold;
+}
@@ -0,0 +1,231 @@
+import type {
+  CodeSymbol,
+  FileSymbols,
+  FunctionSymbol,
+  JSDocTag,
+  MemberSymbol,
+  ParameterSymbol,
+} from "./symbols.js";
+import { getSymbolSignature, getJSDocTag } from "./symbols.js";
+
+/**
+ * Reference documentation for every exported symbol of a file, built purely
+ * from the AST (signatures, JSDoc, examples, props, members)
+ */
+export function generateReferenceSections(
+  symbols: FileSymbols | undefined,
+  language: string
+): string {
+  const exported = symbols?.symbols.filter((symbol) => symbol.exported) || [];
+  if (exported.length === 0) return "";
+
+  let content = `## API Reference\n\n`;
+  for (const symbol of exported) {
+    content += renderSymbol(symbol, language);
+  }
+  return content;
+}
+
+/**
+ * Reference section of one symbol under a "### `name`" heading
+ */
+export function renderSymbol(symbol: CodeSymbol, language: string): string {
+  const name = symbol.isDefault
+    ? `${symbol.name} (default export)`
+    : symbol.name;
+  let content = `### \`${name}\`\n\n`;
+
+  content += codeBlock(getSymbolSignature(symbol), language);
+  content += renderDeprecation(symbol);
+
+  if (symbol.jsdoc?.description) {
+    content += `${symbol.jsdoc.description}\n\n`;
+  }
+
+  switch (symbol.kind) {
+    case "function":
+      content += renderFunctionDetails(symbol);
+      break;
+
+    case "component":
+      if (symbol.props.length > 0) {
+        content += `**Props${symbol.propsType ? ` (\`${symbol.propsType}\`)` : ""}:**\n`;
+        content += renderMembers(symbol.props, getParamTags(symbol));
+      }
+      break;
+
+    case "interface":
+    case "type":
+      if (symbol.members.length > 0) {
+        content += `**Members:**\n`;
+        content += renderMembers(symbol.members);
+      }
+      break;
+
+    case "enum":
+      if (symbol.members.length > 0) {
+        content += `**Members:**\n`;
+        content += symbol.members
+          .map((member) => {
+            const value = member.defaultValue
+              ? ` = \`${member.defaultValue}\``
+              : "";
+            const description = member.description
+              ? ` - ${member.description}`
+              : "";
+            return `- **${member.name}**${value}${description}\n`;
+          })
+          .join("");
+        content += "\n";
+      }
+      break;
+
+    case "class":
+      if (symbol.properties.length > 0) {
+        content += `**Properties:**\n`;
+        content += renderMembers(symbol.properties);
+      }
+      for (const method of symbol.methods) {
+        content += `#### \`${method.name}\`\n\n`;
+        content += codeBlock(method.signature, language);
+        content += renderDeprecation(method);
+        if (method.jsdoc?.description) {
+          content += `${method.jsdoc.description}\n\n`;
+        }
+        content += renderFunctionDetails(method);
+      }
+      break;
+
+    case "variable":
+      if (symbol.value) {
+        content += `**Value:** \`${symbol.value}\`\n\n`;
+      }
+      break;
+  }
+
+  content += renderExamples(symbol, language);
+  return content;
+}
+
+function renderFunctionDetails(symbol: FunctionSymbol): string {
+  let content = "";
+  const paramTags = getParamTags(symbol);
+
+  if (symbol.params.length > 0) {
+    content += `**Parameters:**\n`;
+    content += symbol.params
+      .map((param) => renderParameter(param, paramTags))
+      .join("");
+    content += "\n";
+  }
+
+  const returns =
+    getJSDocTag(symbol, "returns") || getJSDocTag(symbol, "return");
+  const returnType = symbol.returnType || returns?.type;
+  if (returnType || returns?.text) {
+    content += `**Returns:**`;
+    if (returnType) content += ` \`${returnType}\``;
+    if (symbol.async && !returnType) content += ` \`Promise\``;
+    if (returns?.text) content += ` - ${returns.text}`;
+    content += "\n\n";
+  }
+
+  const throws = symbol.jsdoc?.tags.filter((tag) => tag.tag === "throws") || [];
+  if (throws.length > 0) {
+    content += `**Throws:**\n`;
+    content += throws
+      .map((tag) => `- ${tag.type ? `\`${tag.type}\` ` : ""}${tag.text}\n`)
+      .join("");
+    content += "\n";
+  }
+
+  return content;
+}
+
+function renderParameter(
+  param: ParameterSymbol,
+  paramTags: Map<string, JSDocTag>
+): string {
+  const tag = paramTags.get(param.name);
+  const type = param.type || tag?.type;
+  const details = [
+    type ? `\`${param.rest ? "..." : ""}${type}\`` : undefined,
+    param.optional ? "optional" : "required",
+    param.defaultValue ? `default: \`${param.defaultValue}\`` : undefined,
+  ].filter(Boolean);
+
+  const description = tag?.text ? ` - ${tag.text}` : "";
+  return `- **${param.rest ? "..." : ""}${param.name}** (${details.join(", ")})${description}\n`;
+}
+
+function renderMembers(
+  members: MemberSymbol[],
+  tags: Map<string, JSDocTag> = new Map()
+): string {
+  return (
+    members
+      .map((member) => {
+        const tag = tags.get(member.name);
+        const details = [
+          member.type ? `\`${member.type}\`` : undefined,
+          member.optional ? "optional" : "required",
+          member.defaultValue
+            ? `default: \`${member.defaultValue}\``
+            : undefined,
+        ].filter(Boolean);
+        const description = member.description || tag?.text;
+        return `- **${member.name}** (${details.join(", ")})${
+          description ? ` - ${description}` : ""
+        }\n`;
+      })
+      .join("") + "\n"
+  );
+}
+
+function renderDeprecation(symbol: CodeSymbol): string {
+  const deprecated = getJSDocTag(symbol, "deprecated");
+  if (!deprecated) return "";
+
+  return `:::caution[Deprecated]\n${
+    deprecated.text || "This API is deprecated."
+  }\n:::\n\n`;
+}
+
+function renderExamples(symbol: CodeSymbol, language: string): string {
+  const examples =
+    symbol.jsdoc?.tags.filter((tag) => tag.tag === "example") || [];
+  if (examples.length === 0) return "";
+
+  let content =
+    examples.length === 1 ? `**Example:**\n\n` : `**Examples:**\n\n`;
+  for (const example of examples) {
+    // Examples that already contain a fence are used verbatim
+    content += example.text.includes("```")
+      ? `${example.text}\n\n`
+      : codeBlock(example.text, language);
+  }
+  return content;
+}
+
+// @param/@prop tags keyed by name; "props.size" is also indexed as "size"
+function getParamTags(symbol: CodeSymbol): Map<string, JSDocTag> {
+  const tags = new Map<string, JSDocTag>();
+
+  for (const tag of symbol.jsdoc?.tags || []) {
+    if (!["param", "arg", "argument", "prop", "property"].includes(tag.tag)) {
+      continue;
+    }
+    if (!tag.name) continue;
+
+    // [name=default] marks optional parameters in JSDoc
+    const name = tag.name.replace(/^\[|\]$/g, "").split("=")[0];
+    tags.set(name, tag);
+    tags.set(name.split(".").pop()!, tag);
+  }
+
+  return tags;
+}
+
+function codeBlock(code: string, language: string): string {
+  return `\`\`\`${language}\n${code}\n\`\`\`\n\n`;
+}
@@ -0,0 +1,669 @@
+import { posix } from "path";
+import type { FileInfo } from "./fileRead.js";
+import { parseSource } from "./symbols.js";
+
+export interface Endpoint {
+  method: string;
+  // Full path including the prefixes of every router it is mounted under
+  path: string;
+  // Middleware applied before the handler, outermost first
+  middleware: string[];
+  handler?: string;
+  line: number;
+}
+
+interface Registration {
+  router: string;
+  method: string;
+  path: string;
+  middleware: string[];
+  handler?: string;
+  line: number;
+  // Position of the method name; chained routes share a line
+  offset: number;
+}
+
+// `parent.use("/prefix", child)`, `app.route("/prefix", child)` and
+// `fastify.register(child, { prefix })`
+interface Mount {
+  parent: string;
+  prefix: string;
+  child: { local: string } | { source: string; imported: string };
+  middleware: string[];
+}
+
+interface FileRoutes {
+  registrations: Registration[];
+  mounts: Mount[];
+  // Local name -> module and imported name
+  imports: Map<string, { source: string; imported: string }>;
+  // Exported name -> local router name ("default" for the default export)
+  exports: Map<string, string>;
+  // Hono's `new Hono().basePath("/api")`
+  basePaths: Map<string, string>;
+  // Plugin function name -> its router parameter, e.g. `function users(app)`
+  plugins: Map<string, string>;
+}
+
+const ROUTE_METHODS = [
+  "get",
+  "post",
+  "put",
+  "patch",
+  "delete",
+  "options",
+  "head",
+  "all",
+];
+
+// HTTP clients share the method names but don't register routes
+const CLIENT_NAMES = [
+  "axios",
+  "http",
+  "https",
+  "ky",
+  "request",
+  "superagent",
+  "supertest",
+  "client",
+  "fetcher",
+  "$fetch",
+];
+
+/**
+ * Find every route registered in the given files and resolve their full paths
+ * through `app.use("/prefix", router)`, Hono's `app.route()` and Fastify's
+ * `register(plugin, { prefix })`, following relative imports between files
+ */
+export function extractEndpoints(files: FileInfo[]): Map<string, Endpoint[]> {
+  const scanned = new Map<string, FileRoutes>();
+  for (const file of files) {
+    const routes = scanFile(file.content, file.extension);
+    if (routes) scanned.set(file.relativePath, routes);
+  }
+
+  const key = (path: string, local: string) => `${path}#${local}`;
+
+  // Every mounted router points at the router it is mounted on
+  const parents = new Map<string, { parentKey: string; mount: Mount }>();
+  for (const [path, routes] of scanned) {
+    for (const mount of routes.mounts) {
+      let childKey: string | undefined;
+      if ("local" in mount.child) {
+        const imported = routes.imports.get(mount.child.local);
+        childKey = imported
+          ? resolveExport(path, imported.source, imported.imported)
+          : key(
+              path,
+              routes.plugins.get(mount.child.local) ?? mount.child.local
+            );
+      } else {
+        childKey = resolveExport(
+          path,
+          mount.child.source,
+          mount.child.imported
+        );
+      }
+
+      if (childKey && !parents.has(childKey)) {
+        parents.set(childKey, { parentKey: key(path, mount.parent), mount });
+      }
+    }
+  }
+
+  function resolveExport(
+    fromPath: string,
+    source: string,
+    imported: string
+  ): string | undefined {
+    const target = resolveModule(fromPath, source, scanned);
+    if (!target) return undefined;
+    const local = scanned.get(target)!.exports.get(imported);
+    return local ? key(target, local) : undefined;
+  }
+
+  // Prefix and inherited middleware of a router, from the root app down
+  function resolveMount(
+    routerKey: string,
+    seen = new Set<string>()
+  ): { prefix: string; middleware: string[] } {
+    const [path, local] = splitKey(routerKey);
+    const basePath = scanned.get(path)?.basePaths.get(local) || "";
+    const parent = parents.get(routerKey);
+    if (!parent || seen.has(routerKey)) {
+      return { prefix: basePath, middleware: [] };
+    }
+
+    seen.add(routerKey);
+    const outer = resolveMount(parent.parentKey, seen);
+    return {
+      prefix: joinPaths(outer.prefix, parent.mount.prefix, basePath),
+      middleware: [...outer.middleware, ...parent.mount.middleware],
+    };
+  }
+
+  const endpoints = new Map<string, Endpoint[]>();
+  for (const [path, routes] of scanned) {
+    if (routes.registrations.length === 0) continue;
+
+    endpoints.set(
+      path,
+      routes.registrations.map((registration) => {
+        const mount = resolveMount(key(path, registration.router));
+        return {
+          method: registration.method,
+          path: joinPaths(mount.prefix, registration.path),
+          middleware: [...mount.middleware, ...registration.middleware],
+          handler: registration.handler,
+          line: registration.line,
+        };
+      })
+    );
+  }
+
+  return endpoints;
+}
+
+/**
+ * Scan one file for route registrations, mounts, imports and exports.
+ * Returns undefined for files that can't be parsed.
+ */
+/**
+ * HTTP methods of the routes a file registers itself, uppercase and in
+ * source order. HTTP client calls like `axios.get("/users")` don't count.
+ */
+export function getRegisteredMethods(
+  content: string,
+  extension: string
+): string[] {
+  const routes = scanFile(content, extension);
+  const methods = (routes?.registrations || []).map(
+    (registration) => registration.method
+  );
+  return [...new Set(methods)];
+}
+
+function scanFile(content: string, extension: string): FileRoutes | undefined {
+  const ast = parseSource(content, extension);
+  if (!ast) return undefined;
+
+  const scanner = new RouteScanner(content);
+  scanner.visit(ast);
+  // Chained routes are visited outermost call first
+  scanner.routes.registrations.sort((a, b) => a.offset - b.offset);
+  return scanner.routes;
+}
+
+class RouteScanner {
+  routes: FileRoutes = {
+    registrations: [],
+    mounts: [],
+    imports: new Map(),
+    exports: new Map(),
+    basePaths: new Map(),
+    plugins: new Map(),
+  };
+  // Middleware added with `router.use(fn)` so far, per router
+  private routerMiddleware = new Map<string, string[]>();
+
+  constructor(private content: string) {}
+
+  visit(node: any): void {
+    if (!node || typeof node.type !== "string") return;
+
+    switch (node.type) {
+      case "ImportDeclaration":
+        this.visitImport(node);
+        break;
+      case "ExportDefaultDeclaration":
+        this.visitDefaultExport(node.declaration);
+        break;
+      case "ExportNamedDeclaration":
+        this.visitNamedExport(node);
+        break;
+      case "VariableDeclarator":
+        this.visitDeclarator(node);
+        break;
+      case "FunctionDeclaration":
+        if (node.id) this.visitPlugin(node.id.name, node);
+        break;
+      case "AssignmentExpression":
+        // module.exports = router
+        if (this.text(node.left) === "module.exports") {
+          this.visitDefaultExport(node.right);
+        }
+        break;
+      case "CallExpression":
+        this.visitCall(node);
+        break;
+    }
+
+    for (const [field, value] of Object.entries(node)) {
+      if (field === "parent") continue;
+      if (Array.isArray(value)) {
+        for (const child of value) this.visit(child);
+      } else if (value && typeof value === "object") {
+        this.visit(value);
+      }
+    }
+  }
+
+  private visitImport(node: any): void {
+    const source = node.source.value;
+    for (const specifier of node.specifiers) {
+      const imported =
+        specifier.type === "ImportDefaultSpecifier"
+          ? "default"
+          : specifier.type === "ImportNamespaceSpecifier"
+            ? "*"
+            : (specifier.imported.name ?? specifier.imported.value);
+      this.routes.imports.set(specifier.local.name, { source, imported });
+    }
+  }
+
+  private visitDefaultExport(declaration: any): void {
+    const local = this.routerOf(declaration);
+    if (local) this.routes.exports.set("default", local);
+  }
+
+  private visitNamedExport(node: any): void {
+    const declaration = node.declaration;
+    if (declaration?.type === "VariableDeclaration") {
+      for (const declarator of declaration.declarations) {
+        if (declarator.id.type !== "Identifier") continue;
+        const name = declarator.id.name;
+        this.routes.exports.set(name, this.routerOf(declarator.init) || name);
+      }
+    } else if (declaration?.type === "FunctionDeclaration" && declaration.id) {
+      const local = this.routerOf(declaration);
+      if (local) this.routes.exports.set(declaration.id.name, local);
+    }
+
+    for (const specifier of node.specifiers || []) {
+      if (node.source) continue;
+      const exported = specifier.exported.name ?? specifier.exported.value;
+      this.routes.exports.set(exported, specifier.local.name);
+    }
+  }
+
+  private visitDeclarator(node: any): void {
+    // const users = require("./routes/users")
+    const init = node.init;
+    if (
+      init?.type === "CallExpression" &&
+      init.callee.type === "Identifier" &&
+      init.callee.name === "require" &&
+      init.arguments[0]?.type === "Literal"
+    ) {
+      const source = init.arguments[0].value;
+      if (node.id.type === "Identifier") {
+        this.routes.imports.set(node.id.name, { source, imported: "default" });
+      } else if (node.id.type === "ObjectPattern") {
+        for (const property of node.id.properties) {
+          if (property.type !== "Property") continue;
+          if (property.value.type !== "Identifier") continue;
+          this.routes.imports.set(property.value.name, {
+            source,
+            imported: this.text(property.key),
+          });
+        }
+      }
+    }
+
+    // const users = async (app) => { ... }
+    if (
+      node.id.type === "Identifier" &&
+      (init?.type === "ArrowFunctionExpression" ||
+        init?.type === "FunctionExpression")
+    ) {
+      this.visitPlugin(node.id.name, init);
+    }
+
+    // const app = new Hono().basePath("/api")
+    if (
+      node.id.type === "Identifier" &&
+      init?.type === "CallExpression" &&
+      init.callee.type === "MemberExpression" &&
+      this.text(init.callee.property) === "basePath"
+    ) {
+      const basePath = this.stringValue(init.arguments[0]);
+      if (basePath !== undefined) {
+        this.routes.basePaths.set(node.id.name, basePath);
+      }
+    }
+  }
+
+  // Fastify plugins receive the instance they register routes on
+  private visitPlugin(name: string, fn: any): void {
+    const router = this.routerOf(fn);
+    if (router) this.routes.plugins.set(name, router);
+  }
+
+  private visitCall(node: any): void {
+    const callee = node.callee;
+    if (callee.type !== "MemberExpression" || callee.computed) return;
+
+    const property = callee.property.name;
+    const args = node.arguments;
+
+    if (ROUTE_METHODS.includes(property)) {
+      this.visitMethodCall(node, property);
+      return;
+    }
+
+    const router = this.objectName(callee.object);
+    if (!router) return;
+
+    switch (property) {
+      case "use": {
+        const prefix = this.stringValue(args[0]);
+        if (prefix === undefined) {
+          // router.use(auth): applies to routes registered after it
+          this.routerMiddleware.set(router, [
+            ...this.getMiddleware(router),
+            ...args.flatMap((arg: any) => this.middlewareNames(arg)),
+          ]);
+          return;
+        }
+
+        // app.use("/api", auth, apiRouter)
+        const child = args[args.length - 1];
+        if (args.length >= 2 && child.type === "Identifier") {
+          this.routes.mounts.push({
+            parent: router,
+            prefix,
+            child: { local: child.name },
+            middleware: [
+              ...this.getMiddleware(router),
+              ...args
+                .slice(1, -1)
+                .flatMap((arg: any) => this.middlewareNames(arg)),
+            ],
+          });
+        }
+        return;
+      }
+
+      case "route": {
+        // Hono: app.route("/users", users)
+        const prefix = this.stringValue(args[0]);
+        if (prefix !== undefined && args[1]?.type === "Identifier") {
+          this.routes.mounts.push({
+            parent: router,
+            prefix,
+            child: { local: args[1].name },
+            middleware: this.getMiddleware(router),
+          });
+          return;
+        }
+
+        // Fastify: fastify.route({ method, url, handler })
+        if (args[0]?.type === "ObjectExpression") {
+          this.visitFastifyRoute(node, router, args[0]);
+        }
+        return;
+      }
+
+      case "register": {
+        // Fastify: fastify.register(plugin, { prefix: "/users" })
+        const plugin = args[0];
+        const prefix = this.objectProperty(args[1], "prefix");
+        const source = this.requiredModule(plugin);
+        const local = this.routerOf(plugin);
+        const child = local
+          ? { local }
+          : source
+            ? { source, imported: "default" }
+            : undefined;
+        if (child) {
+          this.routes.mounts.push({
+            parent: router,
+            prefix: this.stringValue(prefix) || "",
+            child,
+            middleware: this.getMiddleware(router),
+          });
+        }
+        return;
+      }
+    }
+  }
+
+  // router.get("/path", auth, handler) and router.route("/path").get(handler)
+  private visitMethodCall(node: any, method: string): void {
+    const args = node.arguments;
+    const object = node.callee.object;
+
+    // Chained Express routes: the path comes from the .route() call
+    let chainPath: string | undefined;
+    let base = object;
+    while (
+      base.type === "CallExpression" &&
+      base.callee.type === "MemberExpression"
+    ) {
+      const name = base.callee.property.name;
+      if (name === "route") {
+        chainPath = this.stringValue(base.arguments[0]);
+        base = base.callee.object;
+        break;
+      }
+      if (!ROUTE_METHODS.includes(name)) break;
+      base = base.callee.object;
+    }
+
+    const router = this.objectName(base);
+    if (!router || CLIENT_NAMES.includes(router)) return;
+
+    let path: string | undefined;
+    let handlers: any[];
+    if (chainPath !== undefined && base !== object) {
+      path = chainPath;
+      handlers = args;
+    } else {
+      path = this.stringValue(args[0]);
+      handlers = args.slice(1);
+    }
+
+    // A route needs a path and a handler; `app.get("title")` reads a setting
+    if (path === undefined || handlers.length === 0) return;
+    const handler = handlers[handlers.length - 1];
+    if (!this.isHandler(handler)) return;
+
+    // Fastify route options: { preHandler: [auth], schema }
+    const options = handlers.filter(
+      (arg: any) => arg.type === "ObjectExpression"
+    );
+    const middleware = [
+      ...options.flatMap((arg: any) => this.hookNames(arg)),
+      ...handlers
+        .slice(0, -1)
+        .filter((arg: any) => arg.type !== "ObjectExpression")
+        .flatMap((arg: any) => this.middlewareNames(arg)),
+    ];
+
+    this.routes.registrations.push({
+      router,
+      method: method.toUpperCase(),
+      path,
+      middleware: [...this.getMiddleware(router), ...middleware],
+      handler: this.handlerName(handler),
+      line: node.loc.start.line,
+      offset: node.callee.property.range[0],
+    });
+  }
+
+  private visitFastifyRoute(node: any, router: string, options: any): void {
+    const path = this.stringValue(this.objectProperty(options, "url"));
+    const methodNode = this.objectProperty(options, "method");
+    if (path === undefined || !methodNode) return;
+
+    const methods =
+      methodNode.type === "ArrayExpression"
+        ? methodNode.elements.map((element: any) => this.stringValue(element))
+        : [this.stringValue(methodNode)];
+    const handler = this.objectProperty(options, "handler");
+
+    for (const method of methods) {
+      if (!method) continue;
+      this.routes.registrations.push({
+        router,
+        method: method.toUpperCase(),
+        path,
+        middleware: [...this.getMiddleware(router), ...this.hookNames(options)],
+        handler: handler ? this.handlerName(handler) : undefined,
+        line: node.loc.start.line,
+        offset: node.range[0],
+      });
+    }
+  }
+
+  // Name of the router a default export or exported function stands for:
+  // the identifier itself, or a plugin function's first parameter
+  private routerOf(node: any): string | undefined {
+    if (!node) return undefined;
+    if (node.type === "Identifier") return node.name;
+    if (
+      node.type === "FunctionDeclaration" ||
+      node.type === "FunctionExpression" ||
+      node.type === "ArrowFunctionExpression"
+    ) {
+      const param = node.params[0];
+      return param?.type === "Identifier" ? param.name : undefined;
+    }
+    return undefined;
+  }
+
+  private getMiddleware(router: string): string[] {
+    return this.routerMiddleware.get(router) || [];
+  }
+
+  private hookNames(options: any): string[] {
+    return ["onRequest", "preHandler"].flatMap((hook) => {
+      const value = this.objectProperty(options, hook);
+      return value ? this.middlewareNames(value) : [];
+    });
+  }
+
+  private middlewareNames(node: any): string[] {
+    switch (node.type) {
+      case "Identifier":
+      case "MemberExpression":
+        return [this.text(node)];
+      case "CallExpression":
+        return [`${this.text(node.callee)}()`];
+      case "ArrayExpression":
+        return node.elements.flatMap((element: any) =>
+          element ? this.middlewareNames(element) : []
+        );
+      default:
+        // Inline functions have no name worth listing
+        return [];
+    }
+  }
+
+  private isHandler(node: any): boolean {
+    return [
+      "ArrowFunctionExpression",
+      "FunctionExpression",
+      "Identifier",
+      "MemberExpression",
+      "CallExpression",
+    ].includes(node.type);
+  }
+
+  private handlerName(node: any): string | undefined {
+    if (node.type === "Identifier" || node.type === "MemberExpression") {
+      return this.text(node);
+    }
+    if (node.type === "CallExpression") {
+      return `${this.text(node.callee)}()`;
+    }
+    return undefined;
+  }
+
+  private objectName(node: any): string | undefined {
+    if (node.type === "Identifier") return node.name;
+    if (node.type === "ThisExpression") return "this";
+    // this.app.get(...), server.router.get(...)
+    if (node.type === "MemberExpression" && !node.computed) {
+      return this.text(node);
+    }
+    return undefined;
+  }
+
+  private objectProperty(node: any, name: string): any {
+    if (node?.type !== "ObjectExpression") return undefined;
+    const property = node.properties.find(
+      (candidate: any) =>
+        candidate.type === "Property" &&
+        !candidate.computed &&
+        (candidate.key.name ?? candidate.key.value) === name
+    );
+    return property?.value;
+  }
+
+  // require("./routes") and import("./routes") passed straight to register()
+  private requiredModule(node: any): string | undefined {
+    if (
+      node?.type === "CallExpression" &&
+      node.callee.type === "Identifier" &&
+      node.callee.name === "require"
+    ) {
+      return this.stringValue(node.arguments[0]);
+    }
+    if (node?.type === "ImportExpression") {
+      return this.stringValue(node.source);
+    }
+    return undefined;
+  }
+
+  private stringValue(node: any): string | undefined {
+    if (node?.type === "Literal" && typeof node.value === "string") {
+      return node.value;
+    }
+    if (node?.type === "TemplateLiteral" && node.expressions.length === 0) {
+      return node.quasis[0].value.cooked;
+    }
+    return undefined;
+  }
+
+  private text(node: any): string {
+    return this.content.slice(node.range[0], node.range[1]);
+  }
+}
+
+/**
+ * Join route prefixes and paths: ("/api/", "/users") -> "/api/users"
+ */
+function joinPaths(...parts: string[]): string {
+  const joined = parts
+    .map((part) => part.replace(/^\/+|\/+$/g, ""))
+    .filter(Boolean)
+    .join("/");
+  return `/${joined}`;
+}
+
+function splitKey(key: string): [string, string] {
+  const index = key.lastIndexOf("#");
+  return [key.slice(0, index), key.slice(index + 1)];
+}
+
+// Relative import -> relativePath of a scanned file, trying the usual
+// extensions (and .ts sources behind .js specifiers)
+function resolveModule(
+  fromPath: string,
+  source: string,
+  scanned: Map<string, FileRoutes>
+): string | undefined {
+  if (!source.startsWith(".")) return undefined;
+
+  const base = posix.join(posix.dirname(fromPath), source);
+  const stem = base.replace(/\.(js|mjs|cjs|jsx)$/, "");
+  const candidates = [
+    base,
+    ...["ts", "tsx", "mts", "cts", "js", "jsx", "mjs", "cjs"].flatMap(
+      (extension) => [`${stem}.${extension}`, `${base}/index.${extension}`]
+    ),
+  ];
+
+  return candidates.find((candidate) => scanned.has(candidate));
+}
@@ -0,0 +1,178 @@
+import type { FileInfo } from "./fileRead.js";
+import { parseSource } from "./symbols.js";
+
+// A "use server" directive before any other statement, after comments
+const USE_SERVER = /^(?:\s|\/\/[^\n]*\n|\/\*[\s\S]*?\*\/)*["']use server["']/;
+
+const REVALIDATE_CALLS = ["revalidatePath", "revalidateTag", "updateTag"];
+const REDIRECT_CALLS = ["redirect", "permanentRedirect", "notFound"];
+
+interface ActionInfo {
+  name: string;
+  line: number;
+  params: string[];
+  formFields: string[];
+  schemas: string[];
+  revalidates: string[];
+  redirects: string[];
+}
+
+/**
+ * Whether a module is a server actions module: every export becomes a
+ * server action when the file starts with "use server"
+ */
+export function isServerActionModule(content: string): boolean {
+  return USE_SERVER.test(content);
+}
+
+/**
+ * Inputs, validation, revalidation and redirects of every exported server
+ * action, read from the AST
+ */
+export function generateActionSections(file: FileInfo): string {
+  const actions = analyzeActions(file);
+  if (actions.length === 0) return "";
+
+  let content = `## Server Actions\n\n`;
+  for (const action of actions) {
+    content += `### \`${action.name}\`\n\n`;
+    content += `- **Call:** \`await ${action.name}(${action.params.join(", ")})\`\n`;
+    if (action.formFields.length > 0) {
+      content += `- **Form fields:** ${list(action.formFields)}\n`;
+    }
+    if (action.schemas.length > 0) {
+      content += `- **Validated with:** ${list(action.schemas)}\n`;
+    }
+    if (action.revalidates.length > 0) {
+      content += `- **Revalidates:** ${list(action.revalidates)}\n`;
+    }
+    if (action.redirects.length > 0) {
+      content += `- **Redirects:** ${list(action.redirects)}\n`;
+    }
+    content += `- **Source:** \`${file.relativePath}:${action.line}\`\n\n`;
+  }
+
+  content += `## Calling Server Actions\n\n`;
+  content += `- Each export is served as a POST endpoint that the framework calls for you\n`;
+  content += `- Pass an action to \`<form action={...}>\` or call it from a client component; arguments and return values must be serializable\n`;
+  content += `- Anyone can call an action directly, so validate its input and check authorization inside it\n\n`;
+
+  return content;
+}
+
+// Values holding backticks (template literals) need a longer code fence
+function list(values: string[]): string {
+  return values
+    .map((value) =>
+      value.includes("`") ? `\`\` ${value} \`\`` : `\`${value}\``
+    )
+    .join(", ");
+}
+
+function analyzeActions(file: FileInfo): ActionInfo[] {
+  const ast = parseSource(file.content, file.extension);
+  if (!ast) return [];
+
+  const actions: ActionInfo[] = [];
+  for (const statement of ast.body) {
+    if (
+      statement.type !== "ExportNamedDeclaration" &&
+      statement.type !== "ExportDefaultDeclaration"
+    ) {
+      continue;
+    }
+
+    const node = statement.declaration;
+    if (node?.type === "FunctionDeclaration") {
+      actions.push(
+        analyzeAction(node.id?.name || "default", node, file.content)
+      );
+    }
+    if (node?.type === "VariableDeclaration") {
+      for (const declarator of node.declarations) {
+        const init = declarator.init;
+        if (
+          init?.type === "ArrowFunctionExpression" ||
+          init?.type === "FunctionExpression"
+        ) {
+          actions.push(analyzeAction(declarator.id.name, init, file.content));
+        }
+      }
+    }
+  }
+
+  return actions;
+}
+
+function analyzeAction(name: string, fn: any, content: string): ActionInfo {
+  const text = (node: any) => content.slice(node.range[0], node.range[1]);
+  const action: ActionInfo = {
+    name,
+    line: fn.loc.start.line,
+    params: fn.params.map((param: any) =>
+      text(param.type === "AssignmentPattern" ? param.left : param).replace(
+        /\s+/g,
+        " "
+      )
+    ),
+    formFields: [],
+    schemas: [],
+    revalidates: [],
+    redirects: [],
+  };
+  const add = (values: string[], value: string) => {
+    if (!values.includes(value)) values.push(value);
+  };
+
+  const visit = (node: any) => {
+    if (!node || typeof node.type !== "string") return;
+
+    if (node.type === "CallExpression") {
+      const callee = node.callee;
+      const calleeName =
+        callee.type === "MemberExpression" ? callee.property.name : callee.name;
+      const [first] = node.arguments;
+
+      // formData.get("title"), formData.getAll("tags")
+      if (
+        callee.type === "MemberExpression" &&
+        (calleeName === "get" || calleeName === "getAll") &&
+        /formdata/i.test(text(callee.object)) &&
+        first?.type === "Literal"
+      ) {
+        add(action.formFields, String(first.value));
+      }
+      if (
+        callee.type === "MemberExpression" &&
+        /^(safeParse|parse)(Async)?$/.test(calleeName) &&
+        text(callee.object) !== "JSON"
+      ) {
+        add(action.schemas, text(callee.object));
+      }
+      if (REVALIDATE_CALLS.includes(calleeName)) {
+        add(action.revalidates, text(node));
+      }
+      if (REDIRECT_CALLS.includes(calleeName) && callee.type === "Identifier") {
+        add(
+          action.redirects,
+          !first
+            ? `${calleeName}()`
+            : typeof first.value === "string"
+              ? first.value
+              : text(first)
+        );
+      }
+    }
+
+    for (const key of Object.keys(node)) {
+      if (key === "parent" || key === "range" || key === "loc") continue;
+      const child = node[key];
+      for (const item of Array.isArray(child) ? child : [child]) {
+        if (item && typeof item === "object") visit(item);
+      }
+    }
+  };
+  visit(fn.body);
+
+  return action;
+}
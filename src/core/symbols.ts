@@ -0,0 +1,811 @@
+import { parse } from "@typescript-eslint/parser";
+
+export interface JSDocTag {
+  tag: string;
+  name?: string;
+  type?: string;
+  text: string;
+}
+
+export interface JSDocInfo {
+  description: string;
+  tags: JSDocTag[];
+}
+
+export interface ParameterSymbol {
+  name: string;
+  type?: string;
+  optional: boolean;
+  rest: boolean;
+  defaultValue?: string;
+}
+
+export interface MemberSymbol {
+  name: string;
+  type?: string;
+  optional: boolean;
+  defaultValue?: string;
+  description?: string;
+}
+
+interface BaseSymbol {
+  name: string;
+  exported: boolean;
+  isDefault: boolean;
+  line: number;
+  jsdoc?: JSDocInfo;
+}
+
+export interface FunctionSymbol extends BaseSymbol {
+  kind: "function";
+  async: boolean;
+  params: ParameterSymbol[];
+  returnType?: string;
+  signature: string;
+}
+
+export interface ComponentSymbol extends BaseSymbol {
+  kind: "component";
+  propsType?: string;
+  props: MemberSymbol[];
+  signature: string;
+}
+
+export interface TypeSymbol extends BaseSymbol {
+  kind: "interface" | "type" | "enum";
+  members: MemberSymbol[];
+  definition: string;
+}
+
+export interface ClassSymbol extends BaseSymbol {
+  kind: "class";
+  methods: FunctionSymbol[];
+  properties: MemberSymbol[];
+}
+
+export interface VariableSymbol extends BaseSymbol {
+  kind: "variable";
+  type?: string;
+  value?: string;
+}
+
+export type CodeSymbol =
+  FunctionSymbol | ComponentSymbol | TypeSymbol | ClassSymbol | VariableSymbol;
+
+export interface SourceRange {
+  // Character offsets into the file content
+  start: number;
+  end: number;
+  startLine: number;
+  endLine: number;
+}
+
+export interface FileSymbols {
+  // Exported names, "default" for the default export
+  exports: string[];
+  symbols: CodeSymbol[];
+  // Every top-level statement, in source order
+  statements: SourceRange[];
+}
+
+const PARSEABLE_EXTENSIONS = [
+  "ts",
+  "tsx",
+  "mts",
+  "cts",
+  "js",
+  "jsx",
+  "mjs",
+  "cjs",
+];
+
+// Long initializers are summarized rather than copied into docs and prompts
+const MAX_VALUE_LENGTH = 80;
+
+// Parsed files kept for the analyses that run after symbol extraction
+// (routes, hooks, actions, middleware, schemas); least recently used first
+const MAX_PARSED_FILES = 256;
+const parsed = new Map<string, { extension: string; ast: any }>();
+
+/**
+ * Parse a TS/JS/TSX file into an ESTree AST with ranges, locations and
+ * comments. Returns undefined for other languages or files that fail to
+ * parse. Each file is parsed once; the AST must not be modified.
+ */
+export function parseSource(content: string, extension: string): any {
+  if (!PARSEABLE_EXTENSIONS.includes(extension)) {
+    return undefined;
+  }
+
+  const entry = parsed.get(content);
+  if (entry && entry.extension === extension) {
+    parsed.delete(content);
+    parsed.set(content, entry);
+    return entry.ast;
+  }
+
+  let ast: any;
+  try {
+    ast = parse(content, {
+      // `<T>(x)` casts are ambiguous with JSX, so plain .ts files parse without it
+      jsx: !["ts", "mts", "cts"].includes(extension),
+      range: true,
+      loc: true,
+      comment: true,
+      sourceType: "module",
+    });
+  } catch (error) {
+    ast = undefined;
+  }
+
+  parsed.set(content, { extension, ast });
+  if (parsed.size > MAX_PARSED_FILES) {
+    parsed.delete(parsed.keys().next().value!);
+  }
+  return ast;
+}
+
+/**
+ * Parse a TS/JS/TSX file into a symbol model. Returns undefined for other
+ * languages or files that fail to parse.
+ */
+export function extractSymbols(
+  content: string,
+  extension: string
+): FileSymbols | undefined {
+  const ast = parseSource(content, extension);
+  if (!ast) {
+    return undefined;
+  }
+
+  const extractor = new SymbolExtractor(content, ast.comments || []);
+  for (const statement of ast.body) {
+    extractor.visitStatement(statement);
+  }
+
+  return {
+    ...extractor.result(),
+    statements: ast.body.map((statement: any) => ({
+      start: statement.range[0],
+      end: statement.range[1],
+      startLine: statement.loc.start.line,
+      endLine: statement.loc.end.line,
+    })),
+  };
+}
+
+/**
+ * One-line signature for a symbol, as it would appear in a reference page
+ */
+export function getSymbolSignature(symbol: CodeSymbol): string {
+  switch (symbol.kind) {
+    case "function":
+    case "component":
+      return symbol.signature;
+    case "class":
+      return `class ${symbol.name}`;
+    case "variable":
+      return `const ${symbol.name}${symbol.type ? `: ${symbol.type}` : ""}`;
+    default:
+      return symbol.definition;
+  }
+}
+
+/**
+ * First tag with the given name, e.g. getJSDocTag(symbol, "deprecated")
+ */
+export function getJSDocTag(
+  symbol: CodeSymbol,
+  tag: string
+): JSDocTag | undefined {
+  return symbol.jsdoc?.tags.find((candidate) => candidate.tag === tag);
+}
+
+class SymbolExtractor {
+  private symbols: CodeSymbol[] = [];
+  // Local name -> exported name, from `export { local as exported }`
+  private exportedNames = new Map<string, string>();
+  private defaultName?: string;
+  private hasDefaultExport = false;
+
+  constructor(
+    private content: string,
+    private comments: any[]
+  ) {}
+
+  visitStatement(statement: any): void {
+    switch (statement.type) {
+      case "ExportNamedDeclaration":
+        if (statement.declaration) {
+          this.visitDeclaration(statement.declaration, statement, true, false);
+        }
+        for (const specifier of statement.specifiers || []) {
+          // export { local as exported }
+          if (!statement.source) {
+            this.exportedNames.set(
+              specifier.local.name,
+              this.propertyName(specifier.exported)
+            );
+          }
+        }
+        break;
+
+      case "ExportDefaultDeclaration": {
+        this.hasDefaultExport = true;
+        const declaration = statement.declaration;
+        if (declaration.type === "Identifier") {
+          this.defaultName = declaration.name;
+        } else if (
+          (declaration.type === "FunctionDeclaration" ||
+            declaration.type === "ClassDeclaration") &&
+          declaration.id
+        ) {
+          this.visitDeclaration(declaration, statement, true, true);
+        } else if (
+          declaration.type === "FunctionDeclaration" ||
+          declaration.type === "ArrowFunctionExpression" ||
+          declaration.type === "FunctionExpression"
+        ) {
+          this.addFunction("default", declaration, statement, true, true);
+        }
+        break;
+      }
+
+      default:
+        this.visitDeclaration(statement, statement, false, false);
+    }
+  }
+
+  result(): Omit<FileSymbols, "statements"> {
+    for (const symbol of this.symbols) {
+      if (symbol.kind === "component" && symbol.propsType) {
+        symbol.props = this.resolveProps(symbol.propsType, symbol.props);
+      }
+    }
+
+    const exports = this.symbols
+      .filter((symbol) => symbol.exported && !symbol.isDefault)
+      .map((symbol) => symbol.name);
+
+    for (const symbol of this.symbols) {
+      if (this.exportedNames.has(symbol.name)) symbol.exported = true;
+      if (this.defaultName === symbol.name) {
+        symbol.exported = true;
+        symbol.isDefault = true;
+      }
+    }
+    for (const exported of this.exportedNames.values()) {
+      if (exported === "default") this.hasDefaultExport = true;
+      else if (!exports.includes(exported)) exports.push(exported);
+    }
+    if (this.hasDefaultExport) exports.push("default");
+
+    return { exports, symbols: this.symbols };
+  }
+
+  private visitDeclaration(
+    node: any,
+    statement: any,
+    exported: boolean,
+    isDefault: boolean
+  ): void {
+    switch (node.type) {
+      case "FunctionDeclaration":
+        if (node.id) {
+          this.addFunction(node.id.name, node, statement, exported, isDefault);
+        }
+        break;
+
+      case "VariableDeclaration":
+        for (const declarator of node.declarations) {
+          if (declarator.id.type !== "Identifier") continue;
+          const init = unwrapExpression(declarator.init);
+
+          if (
+            init &&
+            (init.type === "ArrowFunctionExpression" ||
+              init.type === "FunctionExpression")
+          ) {
+            this.addFunction(
+              declarator.id.name,
+              init,
+              statement,
+              exported,
+              isDefault,
+              declarator.id.typeAnnotation
+            );
+          } else {
+            this.symbols.push({
+              kind: "variable",
+              name: declarator.id.name,
+              exported,
+              isDefault,
+              line: statement.loc.start.line,
+              jsdoc: this.getJSDoc(statement),
+              type: this.typeText(declarator.id.typeAnnotation),
+              value: declarator.init
+                ? summarize(this.text(declarator.init))
+                : undefined,
+            });
+          }
+        }
+        break;
+
+      case "TSInterfaceDeclaration":
+        this.symbols.push({
+          kind: "interface",
+          name: node.id.name,
+          exported,
+          isDefault,
+          line: statement.loc.start.line,
+          jsdoc: this.getJSDoc(statement),
+          members: this.getMembers(node.body.body),
+          definition: this.text(node),
+        });
+        break;
+
+      case "TSTypeAliasDeclaration":
+        this.symbols.push({
+          kind: "type",
+          name: node.id.name,
+          exported,
+          isDefault,
+          line: statement.loc.start.line,
+          jsdoc: this.getJSDoc(statement),
+          members:
+            node.typeAnnotation.type === "TSTypeLiteral"
+              ? this.getMembers(node.typeAnnotation.members)
+              : [],
+          definition: this.text(node),
+        });
+        break;
+
+      case "TSEnumDeclaration": {
+        const members = node.body?.members ?? node.members ?? [];
+        this.symbols.push({
+          kind: "enum",
+          name: node.id.name,
+          exported,
+          isDefault,
+          line: statement.loc.start.line,
+          jsdoc: this.getJSDoc(statement),
+          members: members.map((member: any) => ({
+            name: this.propertyName(member.id),
+            optional: false,
+            defaultValue: member.initializer
+              ? this.text(member.initializer)
+              : undefined,
+            description: this.getJSDoc(member)?.description || undefined,
+          })),
+          definition: this.text(node),
+        });
+        break;
+      }
+
+      case "ClassDeclaration":
+        if (node.id) {
+          this.addClass(node, statement, exported, isDefault);
+        }
+        break;
+    }
+  }
+
+  private addFunction(
+    name: string,
+    node: any,
+    statement: any,
+    exported: boolean,
+    isDefault: boolean,
+    variableType?: any
+  ): void {
+    const params = node.params.map((param: any) => this.getParameter(param));
+    const returnType = this.typeText(node.returnType);
+    const jsdoc = this.getJSDoc(statement);
+    const paramList = node.params
+      .map((param: any) => this.text(param))
+      .join(", ");
+    const typeParameters = node.typeParameters
+      ? this.text(node.typeParameters)
+      : "";
+    const signature = `${node.async ? "async " : ""}function ${name}${typeParameters}(${paramList})${
+      returnType ? `: ${returnType}` : ""
+    }`;
+
+    const isComponent =
+      /^[A-Z]/.test(name) &&
+      (containsJSX(node.body) ||
+        /\b(FC|FunctionComponent|VFC)\b/.test(
+          this.typeText(variableType) || ""
+        ));
+
+    if (isComponent) {
+      const { propsType, props } = this.getProps(node, variableType);
+      this.symbols.push({
+        kind: "component",
+        name,
+        exported,
+        isDefault,
+        line: statement.loc.start.line,
+        jsdoc,
+        propsType,
+        props,
+        signature,
+      });
+      return;
+    }
+
+    this.symbols.push({
+      kind: "function",
+      name,
+      exported,
+      isDefault,
+      line: statement.loc.start.line,
+      jsdoc,
+      async: !!node.async,
+      params,
+      returnType,
+      signature,
+    });
+  }
+
+  private addClass(
+    node: any,
+    statement: any,
+    exported: boolean,
+    isDefault: boolean
+  ): void {
+    const methods: FunctionSymbol[] = [];
+    const properties: MemberSymbol[] = [];
+
+    for (const member of node.body.body) {
+      // Private members are implementation details
+      if (
+        member.accessibility === "private" ||
+        member.key?.type === "PrivateIdentifier"
+      ) {
+        continue;
+      }
+
+      const name = this.propertyName(member.key);
+      if (member.type === "MethodDefinition") {
+        const fn = member.value;
+        const returnType = this.typeText(fn.returnType);
+        const paramList = fn.params
+          .map((param: any) => this.text(param))
+          .join(", ");
+        methods.push({
+          kind: "function",
+          name,
+          exported,
+          isDefault: false,
+          line: member.loc.start.line,
+          jsdoc: this.getJSDoc(member),
+          async: !!fn.async,
+          params: fn.params.map((param: any) => this.getParameter(param)),
+          returnType,
+          signature: `${member.static ? "static " : ""}${fn.async ? "async " : ""}${
+            member.kind === "constructor" ? "constructor" : name
+          }(${paramList})${returnType ? `: ${returnType}` : ""}`,
+        });
+      } else if (member.type === "PropertyDefinition") {
+        properties.push({
+          name,
+          type: this.typeText(member.typeAnnotation),
+          optional: !!member.optional,
+          defaultValue: member.value
+            ? summarize(this.text(member.value))
+            : undefined,
+          description: this.getJSDoc(member)?.description || undefined,
+        });
+      }
+    }
+
+    this.symbols.push({
+      kind: "class",
+      name: node.id.name,
+      exported,
+      isDefault,
+      line: statement.loc.start.line,
+      jsdoc: this.getJSDoc(statement),
+      methods,
+      properties,
+    });
+  }
+
+  /**
+   * Props of a component: from the first parameter's annotation, a
+   * React.FC<Props> style variable annotation, and destructuring defaults
+   */
+  private getProps(
+    node: any,
+    variableType?: any
+  ): { propsType?: string; props: MemberSymbol[] } {
+    const param = node.params[0];
+    let typeNode = param?.typeAnnotation?.typeAnnotation;
+    if (param?.type === "AssignmentPattern") {
+      typeNode = param.left.typeAnnotation?.typeAnnotation;
+    }
+    if (!typeNode) {
+      typeNode = variableType?.typeAnnotation?.typeArguments?.params?.[0];
+    }
+
+    let propsType: string | undefined;
+    let props: MemberSymbol[] = [];
+
+    if (typeNode?.type === "TSTypeLiteral") {
+      props = this.getMembers(typeNode.members);
+    } else if (typeNode) {
+      propsType = this.text(typeNode);
+    }
+
+    // Defaults come from destructuring: ({ size = "md" }) => ...
+    const pattern = param?.type === "AssignmentPattern" ? param.left : param;
+    if (pattern?.type === "ObjectPattern") {
+      for (const property of pattern.properties) {
+        if (property.type !== "Property") continue;
+        const key = this.propertyName(property.key);
+        const defaultValue =
+          property.value.type === "AssignmentPattern"
+            ? summarize(this.text(property.value.right))
+            : undefined;
+
+        const existing = props.find((prop) => prop.name === key);
+        if (existing) {
+          if (defaultValue) existing.defaultValue = defaultValue;
+        } else if (typeNode?.type !== "TSTypeLiteral") {
+          // Merged with the referenced props type once the file is visited
+          props.push({ name: key, optional: !!defaultValue, defaultValue });
+        }
+      }
+    }
+
+    return { propsType, props };
+  }
+
+  /**
+   * Members of a props type declared in this file, with destructuring
+   * defaults merged in
+   */
+  private resolveProps(
+    propsType: string,
+    destructured: MemberSymbol[]
+  ): MemberSymbol[] {
+    const typeName = propsType.replace(/<[\s\S]*$/, "").trim();
+    const referenced = this.symbols.find(
+      (symbol): symbol is TypeSymbol =>
+        (symbol.kind === "interface" || symbol.kind === "type") &&
+        symbol.name === typeName
+    );
+    if (!referenced) return destructured;
+
+    const props = referenced.members.map((member) => ({ ...member }));
+    for (const prop of destructured) {
+      const existing = props.find((candidate) => candidate.name === prop.name);
+      if (!existing) {
+        props.push(prop);
+      } else if (prop.defaultValue) {
+        existing.defaultValue = prop.defaultValue;
+      }
+    }
+    return props;
+  }
+
+  private getParameter(param: any): ParameterSymbol {
+    switch (param.type) {
+      case "AssignmentPattern": {
+        const inner = this.getParameter(param.left);
+        return {
+          ...inner,
+          optional: true,
+          defaultValue: summarize(this.text(param.right)),
+        };
+      }
+      case "RestElement":
+        return {
+          name: this.patternName(param.argument),
+          type: this.typeText(param.typeAnnotation),
+          optional: true,
+          rest: true,
+        };
+      case "TSParameterProperty":
+        return this.getParameter(param.parameter);
+      default:
+        return {
+          name: this.patternName(param),
+          type: this.typeText(param.typeAnnotation),
+          optional: !!param.optional,
+          rest: false,
+        };
+    }
+  }
+
+  private getMembers(members: any[]): MemberSymbol[] {
+    const result: MemberSymbol[] = [];
+
+    for (const member of members) {
+      if (member.type === "TSPropertySignature") {
+        result.push({
+          name: this.propertyName(member.key),
+          type: this.typeText(member.typeAnnotation),
+          optional: !!member.optional,
+          description: this.getJSDoc(member)?.description || undefined,
+          defaultValue: this.getJSDoc(member)?.tags.find(
+            (tag) => tag.tag === "default" || tag.tag === "defaultValue"
+          )?.text,
+        });
+      } else if (member.type === "TSMethodSignature") {
+        const returnType = this.typeText(member.returnType);
+        const params = member.params
+          .map((param: any) => this.text(param))
+          .join(", ");
+        result.push({
+          name: this.propertyName(member.key),
+          type: `(${params}) => ${returnType || "void"}`,
+          optional: !!member.optional,
+          description: this.getJSDoc(member)?.description || undefined,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * The JSDoc block directly above a node (only whitespace in between)
+   */
+  private getJSDoc(node: any): JSDocInfo | undefined {
+    const start = node.range[0];
+    let closest: any;
+
+    for (const comment of this.comments) {
+      if (comment.type !== "Block" || !comment.value.startsWith("*")) continue;
+      if (comment.range[1] > start) break;
+      closest = comment;
+    }
+
+    if (!closest || this.content.slice(closest.range[1], start).trim() !== "") {
+      return undefined;
+    }
+
+    return parseJSDoc(closest.value);
+  }
+
+  private patternName(pattern: any): string {
+    if (pattern.type === "Identifier") return pattern.name;
+    // Destructured parameters are shown without their type annotation
+    const text = this.text(pattern);
+    const annotation = pattern.typeAnnotation
+      ? this.text(pattern.typeAnnotation)
+      : "";
+    return annotation ? text.slice(0, text.lastIndexOf(annotation)) : text;
+  }
+
+  private propertyName(key: any): string {
+    if (!key) return "";
+    if (key.type === "Identifier") return key.name;
+    if (key.type === "Literal") return String(key.value);
+    return this.text(key);
+  }
+
+  private typeText(annotation: any): string | undefined {
+    if (!annotation) return undefined;
+    return this.text(annotation.typeAnnotation ?? annotation);
+  }
+
+  private text(node: any): string {
+    return this.content.slice(node.range[0], node.range[1]);
+  }
+}
+
+/**
+ * Split a JSDoc comment body into its description and tags
+ */
+export function parseJSDoc(value: string): JSDocInfo {
+  const lines = value
+    .replace(/^\*/, "")
+    .split("\n")
+    .map((line) => line.replace(/^\s*\*? ?/, ""));
+
+  const descriptionLines: string[] = [];
+  const tags: JSDocTag[] = [];
+  let current: { tag: string; lines: string[] } | undefined;
+
+  for (const line of lines) {
+    const tagMatch = line.match(/^\s*@(\w+)\s?(.*)$/);
+    if (tagMatch) {
+      if (current) tags.push(buildTag(current.tag, current.lines));
+      current = { tag: tagMatch[1], lines: [tagMatch[2]] };
+    } else if (current) {
+      current.lines.push(line);
+    } else {
+      descriptionLines.push(line);
+    }
+  }
+  if (current) tags.push(buildTag(current.tag, current.lines));
+
+  return { description: descriptionLines.join("\n").trim(), tags };
+}
+
+function buildTag(tag: string, lines: string[]): JSDocTag {
+  // Examples keep their formatting, other tags are single paragraphs
+  let text =
+    tag === "example"
+      ? lines.join("\n").replace(/^\n+|\s+$/g, "")
+      : lines.join(" ").replace(/\s+/g, " ").trim();
+
+  let type: string | undefined;
+  const typeMatch = text.match(/^\{([^}]*)\}\s*/);
+  if (typeMatch && tag !== "example") {
+    type = typeMatch[1];
+    text = text.slice(typeMatch[0].length);
+  }
+
+  let name: string | undefined;
+  if (
+    ["param", "arg", "argument", "prop", "property", "typedef"].includes(tag)
+  ) {
+    const nameMatch = text.match(/^(\[[^\]]*\]|[\w$.]+)\s*(?:-\s*)?/);
+    if (nameMatch) {
+      name = nameMatch[1];
+      text = text.slice(nameMatch[0].length);
+    }
+  }
+
+  return { tag, name, type, text };
+}
+
+function unwrapExpression(node: any): any {
+  // memo(...), forwardRef(...) and `as` casts wrap the actual function
+  let current = node;
+  while (current) {
+    if (
+      current.type === "TSAsExpression" ||
+      current.type === "TSSatisfiesExpression"
+    ) {
+      current = current.expression;
+    } else if (
+      current.type === "CallExpression" &&
+      current.arguments.length > 0 &&
+      /^(React\.)?(memo|forwardRef)$/.test(calleeName(current.callee))
+    ) {
+      current = current.arguments[0];
+    } else {
+      return current;
+    }
+  }
+  return current;
+}
+
+function calleeName(callee: any): string {
+  if (callee.type === "Identifier") return callee.name;
+  if (
+    callee.type === "MemberExpression" &&
+    callee.object.type === "Identifier"
+  ) {
+    return `${callee.object.name}.${callee.property.name}`;
+  }
+  return "";
+}
+
+function containsJSX(node: any): boolean {
+  if (!node || typeof node !== "object") return false;
+  if (node.type === "JSXElement" || node.type === "JSXFragment") return true;
+
+  for (const key of Object.keys(node)) {
+    if (key === "parent" || key === "loc" || key === "range") continue;
+    const value = node[key];
+    if (Array.isArray(value)) {
+      if (value.some(containsJSX)) return true;
+    } else if (value && typeof value === "object" && containsJSX(value)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function summarize(text: string): string {
+  const singleLine = text.replace(/\s+/g, " ");
+  return singleLine.length > MAX_VALUE_LENGTH
+    ? `${singleLine.slice(0, MAX_VALUE_LENGTH)}…`
+    : singleLine;
+}
@@ -0,0 +1,204 @@
+import type { FileInfo } from "./fileRead.js";
+import type { TypeSymbol } from "./symbols.js";
+import { renderSymbol } from "./referenceGenerator.js";
+import { getFallbackLabel, getPageHref } from "./fileUtils.js";
+
+// `export interface User`, `export type Id`, `export const enum Role`
+const TYPE_EXPORT =
+  /export\s+(?:declare\s+)?(?:interface|type|(?:const\s+)?enum)\s+[\w$]/;
+// Any runtime export makes the module more than a types module
+const VALUE_EXPORT =
+  /export\s+(?:declare\s+)?(?:default\b|(?:async\s+)?function\b|(?:abstract\s+)?class\b|(?:const|let|var)\s+(?!enum\b))/;
+
+// import { User, type Role as R } from "../types/user"
+const NAMED_IMPORT =
+  /import\s+(?:type\s+)?(?:[\w$]+\s*,\s*)?\{([^}]*)\}\s*from\s*["']([^"']+)["']/g;
+
+interface TypeEntry {
+  symbol: TypeSymbol;
+  file: FileInfo;
+  href: string;
+}
+
+/**
+ * Whether a file only declares types: .d.ts files, types/ folders and
+ * modules exporting interfaces, type aliases and enums but no values
+ */
+export function isTypeModule(relativePath: string, content: string): boolean {
+  if (/\.d\.(ts|mts|cts)$/.test(relativePath)) return true;
+  if (/(^|\/)(types|typings)\//.test(relativePath)) return true;
+  return TYPE_EXPORT.test(content) && !VALUE_EXPORT.test(content);
+}
+
+/**
+ * Exported types of the types pages, with the pages that import them. Used to
+ * render "used by" lists and to link type names on every other page.
+ */
+export class TypeIndex {
+  private byName = new Map<string, TypeEntry[]>();
+  private usedBy = new Map<TypeEntry, FileInfo[]>();
+  // Type names each page may link, keyed by page href
+  private links = new Map<string, Map<string, TypeEntry>>();
+
+  constructor(files: FileInfo[]) {
+    for (const file of files.filter((file) => file.category === "types")) {
+      for (const symbol of getTypeSymbols(file)) {
+        const entry = {
+          symbol,
+          file,
+          href: `${getPageHref(file)}#${getAnchor(symbol)}`,
+        };
+        this.byName.set(symbol.name, [
+          ...(this.byName.get(symbol.name) || []),
+          entry,
+        ]);
+        // Types of the same file refer to each other without imports
+        this.addLink(file, symbol.name, entry);
+      }
+    }
+
+    for (const file of files) {
+      for (const [local, entry] of this.resolveImports(file)) {
+        this.addLink(file, local, entry);
+        if (entry.file.relativePath === file.relativePath) continue;
+
+        const users = this.usedBy.get(entry) || [];
+        if (!users.some((user) => getPageHref(user) === getPageHref(file))) {
+          this.usedBy.set(entry, [...users, file]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Reference page of a types file: one anchored section per exported type
+   * with its members, JSDoc and the pages that use it
+   */
+  renderPage(file: FileInfo): string {
+    const language = file.extension.startsWith("js")
+      ? "javascript"
+      : "typescript";
+    let content = `# ${file.fileName.replace(/(\.d)?\.[^/.]+$/, "")}\n\n`;
+    content += `**File:** \`${file.relativePath}\`\n\n`;
+
+    const entries = [...this.byName.values()]
+      .flat()
+      .filter((entry) => entry.file.relativePath === file.relativePath);
+    if (entries.length === 0) {
+      return `${content}This file exports no types.\n`;
+    }
+
+    content += `## Type Reference\n\n`;
+    for (const entry of entries) {
+      content += renderSymbol(entry.symbol, language);
+
+      const users = this.usedBy.get(entry) || [];
+      if (users.length > 0) {
+        content += `**Used by:**\n`;
+        content += users
+          .map(
+            (user) =>
+              `- [${getFallbackLabel(user, user.category)}](${getPageHref(user)})\n`
+          )
+          .join("");
+        content += "\n";
+      }
+    }
+
+    return this.linkTypeNames(content, file);
+  }
+
+  /**
+   * Turn inline code naming a type the page imports (e.g. `User` or
+   * `User[]`) into a link to the type's anchor. Headings and code blocks
+   * are left alone.
+   */
+  linkTypeNames(content: string, file: FileInfo): string {
+    const links = this.links.get(getPageHref(file));
+    if (!links) return content;
+
+    let inFence = false;
+    let inFrontmatter = content.startsWith("---\n");
+    return content
+      .split("\n")
+      .map((line, index) => {
+        if (inFrontmatter) {
+          if (index > 0 && line === "---") inFrontmatter = false;
+          return line;
+        }
+        if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+        if (inFence || /^\s*(```|~~~|#)/.test(line)) return line;
+
+        return line.replace(
+          /(^|[^[`])`([^`\n]+)`/g,
+          (match, before: string, code: string) => {
+            // Only type-like expressions: names, generics, arrays and unions
+            if (!/^[\w$<>[\]|&, .?]+$/.test(code)) return match;
+            const names = (code.match(/[A-Za-z_$][\w$]*/g) || []).filter(
+              (name) => links.has(name)
+            );
+            if (new Set(names).size !== 1) return match;
+            return `${before}[\`${code}\`](${links.get(names[0])!.href})`;
+          }
+        );
+      })
+      .join("\n");
+  }
+
+  private addLink(file: FileInfo, name: string, entry: TypeEntry): void {
+    const href = getPageHref(file);
+    const links = this.links.get(href) || new Map<string, TypeEntry>();
+    links.set(name, entry);
+    this.links.set(href, links);
+  }
+
+  // Local names of the indexed types a file imports
+  private resolveImports(file: FileInfo): [string, TypeEntry][] {
+    const resolved: [string, TypeEntry][] = [];
+
+    for (const [, specifiers] of file.content.matchAll(NAMED_IMPORT)) {
+      for (const specifier of specifiers.split(",")) {
+        const [imported, local] = specifier
+          .replace(/^\s*type\s+/, "")
+          .split(/\s+as\s+/)
+          .map((name) => name.trim());
+        if (!imported) continue;
+
+        // The dependency graph tells which file the name comes from
+        const entry = this.byName
+          .get(imported)
+          ?.find((candidate) =>
+            file.dependencies?.some(
+              (dependency) =>
+                dependency.relativePath === candidate.file.relativePath &&
+                dependency.names.includes(imported)
+            )
+          );
+        if (entry) resolved.push([local || imported, entry]);
+      }
+    }
+
+    return resolved;
+  }
+}
+
+function getTypeSymbols(file: FileInfo): TypeSymbol[] {
+  return (file.symbols?.symbols || []).filter(
+    (symbol): symbol is TypeSymbol =>
+      symbol.exported &&
+      (symbol.kind === "interface" ||
+        symbol.kind === "type" ||
+        symbol.kind === "enum")
+  );
+}
+
+// Starlight's heading ids for the "### `Name`" headings of renderSymbol
+function getAnchor(symbol: TypeSymbol): string {
+  const heading = symbol.isDefault
+    ? `${symbol.name} (default export)`
+    : symbol.name;
+  return heading
+    .toLowerCase()
+    .replace(/[^\w\s-]/g, "")
+    .replace(/\s/g, "-");
+}
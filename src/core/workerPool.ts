@@ -0,0 +1,222 @@
+import { APICallError, RetryError } from "ai";
+import { LLMRequestError } from "./llm.js";
+import type { LLMProvider, GenerateRequest } from "./llm.js";
+
+export interface PoolOptions {
+  // Maximum number of requests in flight at once
+  concurrency: number;
+  // Maximum number of requests started in any 60 second window (0 = unlimited)
+  requestsPerMinute: number;
+  // Retries after the first attempt for rate-limit, server and timeout errors
+  maxRetries: number;
+  // Per-request timeout in milliseconds (0 = no timeout)
+  timeoutMs: number;
+  // First backoff delay, doubled on every retry
+  retryDelayMs: number;
+}
+
+/**
+ * Error raised when a task exceeds its timeout
+ */
+export class TaskTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms`);
+    this.name = "TaskTimeoutError";
+  }
+}
+
+/**
+ * Resolve the `generation` section of zen.config.mjs
+ */
+export function resolvePoolOptions(config: any): PoolOptions {
+  const generation = config.generation || {};
+
+  return {
+    concurrency: Math.max(1, generation.concurrency ?? 4),
+    requestsPerMinute: Math.max(0, generation.requestsPerMinute ?? 60),
+    maxRetries: Math.max(0, generation.maxRetries ?? 3),
+    timeoutMs: Math.max(0, generation.timeoutMs ?? 120_000),
+    retryDelayMs: Math.max(0, generation.retryDelayMs ?? 1000),
+  };
+}
+
+/**
+ * Whether a failed request is worth retrying: rate limits (429), server
+ * errors (5xx), timeouts and dropped connections
+ */
+export function isRetryableError(error: unknown): boolean {
+  const failure = unwrapRetryError(error);
+  if (failure instanceof TaskTimeoutError) return true;
+
+  const statusCode = getResponse(failure)?.statusCode;
+  if (statusCode !== undefined) {
+    return statusCode === 429 || statusCode >= 500;
+  }
+
+  // fetch() reports dropped connections as a TypeError with a system error
+  // as its cause
+  const code =
+    getErrorCode(failure) ??
+    getErrorCode(failure instanceof Error ? failure.cause : undefined);
+  return (
+    code !== undefined &&
+    ["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN"].includes(code)
+  );
+}
+
+// The AI SDK wraps the last failure when its own retries run out
+function unwrapRetryError(error: unknown): unknown {
+  return RetryError.isInstance(error) ? error.lastError : error;
+}
+
+// Status and headers of failed HTTP calls, from the AI SDK or the
+// OpenAI-compatible backends
+function getResponse(
+  error: unknown
+):
+  | { statusCode?: number; responseHeaders?: Record<string, string> }
+  | undefined {
+  return APICallError.isInstance(error) || error instanceof LLMRequestError
+    ? error
+    : undefined;
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  return typeof error === "object" &&
+    error !== null &&
+    "code" in error &&
+    typeof error.code === "string"
+    ? error.code
+    : undefined;
+}
+
+/**
+ * Shared pool every model request goes through: bounds concurrency and
+ * request rate, retries transient failures with exponential backoff and
+ * aborts requests that exceed the timeout
+ */
+export class WorkerPool {
+  private active = 0;
+  private waiting: (() => void)[] = [];
+  private startTimes: number[] = [];
+
+  constructor(private options: PoolOptions) {}
+
+  async run<T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    await this.acquire();
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await this.waitForRateLimit();
+
+        try {
+          return await this.runWithTimeout(task);
+        } catch (error) {
+          if (attempt >= this.options.maxRetries || !isRetryableError(error)) {
+            throw error;
+          }
+          await sleep(this.getRetryDelay(error, attempt));
+        }
+      }
+    } finally {
+      this.release();
+    }
+  }
+
+  private async runWithTimeout<T>(
+    task: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    const { timeoutMs } = this.options;
+
+    if (!timeoutMs) {
+      return task(controller.signal);
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // Rejected first, so a task settling on abort can't win the race
+        reject(new TaskTimeoutError(timeoutMs));
+        controller.abort();
+      }, timeoutMs);
+    });
+
+    try {
+      return await Promise.race([task(controller.signal), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private getRetryDelay(error: unknown, attempt: number): number {
+    // Honor Retry-After (seconds) when the server sends one
+    const headers = getResponse(unwrapRetryError(error))?.responseHeaders;
+    const retryAfter = Number(headers?.["retry-after"]);
+    if (Number.isFinite(retryAfter) && retryAfter > 0) {
+      return retryAfter * 1000;
+    }
+
+    const backoff = this.options.retryDelayMs * 2 ** attempt;
+    // Jitter keeps parallel workers from retrying in lockstep
+    return backoff + Math.random() * this.options.retryDelayMs;
+  }
+
+  private async waitForRateLimit(): Promise<void> {
+    const { requestsPerMinute } = this.options;
+    if (!requestsPerMinute) return;
+
+    for (;;) {
+      const now = Date.now();
+      this.startTimes = this.startTimes.filter((time) => now - time < 60_000);
+
+      if (this.startTimes.length < requestsPerMinute) {
+        this.startTimes.push(now);
+        return;
+      }
+
+      await sleep(this.startTimes[0] + 60_000 - now);
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      // Hand the slot straight to the next task
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Route every request of a provider through the pool
+ */
+export function createPooledProvider(
+  provider: LLMProvider,
+  pool: WorkerPool
+): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    generate(request: GenerateRequest) {
+      return pool.run((abortSignal) =>
+        provider.generate({ ...request, abortSignal })
+      );
+    },
+  };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
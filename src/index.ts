@@ -11,6 +11,11 @@ import {
   generateConfig,
 } from "./core/index.js";
 import { checkValidNodeProject } from "./core/fileUtils.js";
+import { loadConfig } from "./utils/loadConfig.js";
+import { printSkipSummary, resolveSkipOptions } from "./core/fileFilters.js";
+import type { SkippedFile } from "./core/fileFilters.js";
+import { resolveFramework } from "./core/frameworks.js";
+import { configureCategories } from "./core/categories.js";
 
 // Hard-coded version
 const version = "1.0.35";
@@ -67,7 +72,30 @@ yargs(hideBin(argv))
     "generate",
     "Generate documentation",
     (yargs) => {
-      return yargs;
+      return yargs
+        .option("provider", {
+          type: "string",
+          describe:
+            'Override the LLM provider from zen.config.mjs ("mock" runs offline)',
+          choices: ["google", "openai", "local", "mock"],
+        })
+        .option("cache", {
+          type: "boolean",
+          default: true,
+          describe:
+            "Reuse cached docs for unchanged files (--no-cache to disable)",
+        })
+        .option("since", {
+          type: "string",
+          describe:
+            "Only regenerate docs for files changed since a git ref (e.g. origin/main)",
+        })
+        .option("ai", {
+          type: "boolean",
+          default: true,
+          describe:
+            "Use an LLM; --no-ai builds reference docs from the source alone",
+        });
     },
     async (argv) => {
       checkValidNodeProject();
@@ -114,16 +142,35 @@ yargs(hideBin(argv))
         );
       });
 
+      const config = await loadConfig();
       const spinner = ora("Reading codebase from current directory...").start();
 
       try {
-        // Step 1: Read all files
-        const files = await readCodebase();
+        // Step 1: Read the files selected by include/exclude
+        const files = await readCodebase({
+          include: toArray(config.include),
+          // Never document the generated docs themselves
+          exclude: [...toArray(config.exclude), config.outputDir || "docs"],
+        });
         spinner.succeed(`Found ${files.length} files`);
 
-        // Step 2: Categorize files
+        // Step 2: Categorize files with the framework's routing rules and
+        // any categories declared in the config
+        configureCategories(config);
+        const { adapter: framework, detected } = resolveFramework(config);
+        console.log(
+          chalk.blueBright("🧭 Framework: ") +
+            chalk.whiteBright.bold(framework.label) +
+            chalk.gray(detected ? " (detected)" : " (from zen.config.mjs)")
+        );
         const categorizeSpinner = ora("Categorizing files...").start();
-        const fileInfos = await categorizeFiles(files);
+        const skipped: SkippedFile[] = [];
+        const fileInfos = await categorizeFiles(files, {
+          framework,
+          skip: resolveSkipOptions(config),
+          onSkip: (relativePath, reason) =>
+            skipped.push({ relativePath, reason }),
+        });
         categorizeSpinner.succeed("Files categorized successfully");
 
         // Show categorization summary
@@ -152,10 +199,16 @@ yargs(hideBin(argv))
           );
         });
         console.log();
+        printSkipSummary(skipped);
 
         // Step 3: Generate documentation
         const generateSpinner = ora("Generating documentation...").start();
-        await generateDocs(fileInfos);
+        await generateDocs(fileInfos, {
+          provider: argv.provider,
+          cache: argv.cache,
+          since: argv.since,
+          ai: argv.ai,
+        });
         generateSpinner.succeed("Documentation generated successfully!");
       } catch (error) {
         spinner.fail(chalk.redBright.bold("✖ Error processing files"));
@@ -170,3 +223,8 @@ yargs(hideBin(argv))
   .demandCommand()
   .help()
   .parse();
+
+function toArray(value: unknown): string[] {
+  if (!value) return [];
+  return (Array.isArray(value) ? value : [value]).map(String);
+}
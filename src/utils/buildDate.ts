@@ -0,0 +1,10 @@
+/**
+ * Date stamped into generated pages. Honors SOURCE_DATE_EPOCH so offline
+ * (mock provider) runs produce byte-identical output for snapshot tests.
+ */
+export function getBuildDate(): Date {
+  const epoch = Number(process.env.SOURCE_DATE_EPOCH);
+  return Number.isFinite(epoch) && process.env.SOURCE_DATE_EPOCH
+    ? new Date(epoch * 1000)
+    : new Date();
+}
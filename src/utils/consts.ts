@@ -1 +1,5 @@
-export const REQUIRED_KEYS = ["GOOGLE_GENERATIVE_AI_API_KEY", "LINGO_API_KEY"];
+export const REQUIRED_KEYS = [
+  "GOOGLE_GENERATIVE_AI_API_KEY",
+  "OPENAI_API_KEY",
+  "LINGO_API_KEY",
+];
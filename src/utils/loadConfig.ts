@@ -4,11 +4,16 @@ import { pathToFileURL } from "url";
 import chalk from "chalk";
 import ora from "ora";
 
+let loadedConfig: any;
+
 /**
  * Load the Zen configuration file (zen.config.mjs) from the root directory.
- * Compatible across Windows, Linux, and macOS.
+ * Compatible across Windows, Linux, and macOS. The config is only read once
+ * per run.
  */
 export async function loadConfig() {
+  if (loadedConfig) return loadedConfig;
+
   const configPath = join(process.cwd(), "zen.config.mjs");
   const configSpinner = ora(`Looking for zen.config.mjs at ${configPath}`).start();
 
@@ -28,6 +33,7 @@ export async function loadConfig() {
     }
 
     configSpinner.succeed(`Config loaded from: ${configPath}`);
+    loadedConfig = config;
     return config;
   } catch (error) {
     configSpinner.fail("Failed to load configuration.");
@@ -4,6 +4,7 @@ import { REQUIRED_KEYS } from "./consts.js";
 
 export function loadEnvFile(): {
   googleApiKey: string | undefined;
+  openaiApiKey: string | undefined;
   lingoApiKey: string | undefined;
 } {
   const envPath = join(process.cwd(), ".env");
@@ -30,6 +31,7 @@ export function loadEnvFile(): {
 
   return {
     googleApiKey: process.env.GOOGLE_GENERATIVE_AI_API_KEY,
+    openaiApiKey: process.env.OPENAI_API_KEY,
     lingoApiKey: process.env.LINGO_API_KEY,
   };
 }
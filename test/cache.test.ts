@@ -0,0 +1,144 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  DocCache,
+  createCachedProvider,
+  isServedFromCache,
+} from "../src/core/cache.js";
+import type { FileInfo } from "../src/core/fileRead.js";
+import type { LLMProvider } from "../src/core/llm.js";
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), "zen-doc-test-"));
+});
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+function fakeProvider(model = "model-a") {
+  const provider = {
+    name: "mock",
+    model,
+    calls: 0,
+    async generate() {
+      provider.calls++;
+      return `answer ${provider.calls}`;
+    },
+  } satisfies LLMProvider & { calls: number };
+  return provider;
+}
+
+function docRequest(content: string, prompt = "Document this file") {
+  const file = {
+    relativePath: "lib/format.ts",
+    fileName: "format.ts",
+    extension: "ts",
+    category: "lib",
+    content,
+  } as FileInfo;
+  return { prompt, context: { task: "doc" as const, file, category: "lib" } };
+}
+
+describe("createCachedProvider", () => {
+  test("answers an unchanged file from the cache", async () => {
+    const cache = await DocCache.load(join(dir, "hit.json"));
+    const provider = fakeProvider();
+    const cached = createCachedProvider(provider, cache);
+    const request = docRequest("export const a = 1;");
+
+    expect(await cached.generate(request)).toBe("answer 1");
+    expect(isServedFromCache(cache, request.context)).toBe(false);
+    expect(await cached.generate(request)).toBe("answer 1");
+
+    expect(provider.calls).toBe(1);
+    expect([cache.hits, cache.misses]).toEqual([1, 1]);
+    expect(isServedFromCache(cache, request.context)).toBe(true);
+  });
+
+  test("misses when the file, prompt or model changes", async () => {
+    const cache = await DocCache.load(join(dir, "miss.json"));
+    const provider = fakeProvider();
+    await createCachedProvider(provider, cache).generate(
+      docRequest("export const a = 1;")
+    );
+
+    await createCachedProvider(provider, cache).generate(
+      docRequest("export const a = 2;")
+    );
+    await createCachedProvider(provider, cache).generate(
+      docRequest("export const a = 2;", "Document this file briefly")
+    );
+    await createCachedProvider(fakeProvider("model-b"), cache).generate(
+      docRequest("export const a = 2;", "Document this file briefly")
+    );
+
+    expect(provider.calls).toBe(3);
+    expect(cache.hits).toBe(0);
+  });
+
+  test("passes requests without a file through", async () => {
+    const cache = await DocCache.load(join(dir, "connection.json"));
+    const provider = fakeProvider();
+    const cached = createCachedProvider(provider, cache);
+
+    await cached.generate({ prompt: "Say hello" });
+    await cached.generate({ prompt: "Say hello" });
+
+    expect(provider.calls).toBe(2);
+    expect([cache.hits, cache.misses]).toEqual([0, 0]);
+  });
+});
+
+describe("DocCache", () => {
+  test("keeps only the latest answer per file across runs", async () => {
+    const path = join(dir, "saved.json");
+    const first = await DocCache.load(path);
+    const provider = fakeProvider();
+    await createCachedProvider(provider, first).generate(
+      docRequest("export const a = 1;")
+    );
+    await createCachedProvider(provider, first).generate(
+      docRequest("export const a = 2;")
+    );
+    await first.save();
+
+    const saved = JSON.parse(await readFile(path, "utf-8"));
+    expect(Object.values(saved.entries)).toHaveLength(1);
+
+    const second = await DocCache.load(path);
+    expect(
+      await createCachedProvider(provider, second).generate(
+        docRequest("export const a = 2;")
+      )
+    ).toBe("answer 2");
+    expect(second.hits).toBe(1);
+  });
+
+  test("starts empty from a corrupt or outdated cache file", async () => {
+    const corrupt = join(dir, "corrupt.json");
+    await writeFile(corrupt, "{ not json");
+    // Same entries under an older layout version
+    const outdated = join(dir, "outdated.json");
+    const saved = await DocCache.load(outdated);
+    await createCachedProvider(fakeProvider(), saved).generate(
+      docRequest("export const a = 1;")
+    );
+    await saved.save();
+    const data = JSON.parse(await readFile(outdated, "utf-8"));
+    await writeFile(outdated, JSON.stringify({ ...data, format: 0 }));
+
+    for (const path of [corrupt, outdated]) {
+      const cache = await DocCache.load(path);
+      const provider = fakeProvider();
+      await createCachedProvider(provider, cache).generate(
+        docRequest("export const a = 1;")
+      );
+      expect(provider.calls).toBe(1);
+    }
+  });
+});
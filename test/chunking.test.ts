@@ -0,0 +1,153 @@
+import { describe, expect, test } from "bun:test";
+import {
+  generateChunkedDoc,
+  mergeChunkDocs,
+  splitIntoChunks,
+} from "../src/core/chunking.js";
+import type { FileInfo } from "../src/core/fileRead.js";
+import type { GenerateRequest, LLMProvider } from "../src/core/llm.js";
+import { extractSymbols } from "../src/core/symbols.js";
+
+function sourceFile(content: string): FileInfo {
+  return {
+    path: "/project/lib/math.ts",
+    relativePath: "lib/math.ts",
+    fileName: "math.ts",
+    extension: "ts",
+    category: "lib",
+    content,
+    symbols: extractSymbols(content, "ts"),
+  };
+}
+
+const source = [
+  "/** Adds two numbers */",
+  "export function add(a: number, b: number) {",
+  "  return a + b;",
+  "}",
+  "",
+  "/** Subtracts b from a */",
+  "export function subtract(a: number, b: number) {",
+  "  return a - b;",
+  "}",
+  "",
+  "export const PI = 3.14;",
+  "",
+].join("\n");
+
+describe("splitIntoChunks", () => {
+  test("keeps a file that fits in one prompt whole", () => {
+    const chunks = splitIntoChunks(sourceFile(source), 10_000);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 1, total: 1, startLine: 1 });
+    expect(chunks[0].symbols).toEqual(["add", "subtract", "PI"]);
+  });
+
+  test("cuts between declarations and keeps doc comments with them", () => {
+    const chunks = splitIntoChunks(sourceFile(source), 130);
+
+    expect(
+      chunks.map(({ index, total, startLine, endLine, symbols }) => ({
+        index,
+        total,
+        startLine,
+        endLine,
+        symbols,
+      }))
+    ).toEqual([
+      { index: 1, total: 2, startLine: 1, endLine: 4, symbols: ["add"] },
+      {
+        index: 2,
+        total: 2,
+        startLine: 6,
+        endLine: 11,
+        symbols: ["subtract", "PI"],
+      },
+    ]);
+    expect(chunks[1].content.startsWith("/** Subtracts b from a */")).toBe(
+      true
+    );
+  });
+
+  test("cuts a declaration larger than a chunk at line breaks", () => {
+    const body = Array.from(
+      { length: 20 },
+      (_, i) => `  const value${i} = ${i};`
+    ).join("\n");
+    const chunks = splitIntoChunks(
+      sourceFile(`export function big() {\n${body}\n}\n`),
+      200
+    );
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.content.length).toBeLessThanOrEqual(200);
+      expect(chunk.content.endsWith("\n")).toBe(true);
+    }
+    expect(chunks.map((chunk) => chunk.content).join("")).toBe(
+      `export function big() {\n${body}\n}\n`
+    );
+  });
+});
+
+describe("mergeChunkDocs", () => {
+  test("gives each chunk a section and shifts its headings below it", () => {
+    const chunks = splitIntoChunks(sourceFile(source), 130);
+    const merged = mergeChunkDocs(chunks, [
+      "# add\n\nAdds numbers.\n\n```ts\n# not a heading\n```",
+      "## subtract\n\n### Parameters\n\nTwo numbers.",
+    ]);
+
+    expect(merged).toBe(
+      [
+        "## Lines 1-4",
+        "",
+        "### add",
+        "",
+        "Adds numbers.",
+        "",
+        "```ts",
+        "# not a heading",
+        "```",
+        "",
+        "## Lines 6-11",
+        "",
+        "### subtract",
+        "",
+        "#### Parameters",
+        "",
+        "Two numbers.",
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("generateChunkedDoc", () => {
+  test("stitches the parts locally when the merge request fails", async () => {
+    const requests: GenerateRequest[] = [];
+    const provider: LLMProvider = {
+      name: "mock",
+      model: "mock",
+      async generate(request) {
+        requests.push(request);
+        if (request.context?.task === "doc") throw new Error("Merge failed");
+        return `# Part ${request.context?.chunk?.index}`;
+      },
+    };
+    const file = sourceFile(source);
+    const chunks = splitIntoChunks(file, 130);
+
+    const doc = await generateChunkedDoc(file, "lib", chunks, {}, provider);
+
+    expect(requests.map((request) => request.context?.task)).toEqual([
+      "chunk",
+      "chunk",
+      "doc",
+    ]);
+    expect(doc).toBe(
+      "## Lines 1-4\n\n### Part 1\n\n## Lines 6-11\n\n### Part 2\n"
+    );
+  });
+});
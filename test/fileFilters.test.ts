@@ -0,0 +1,66 @@
+import { describe, expect, test } from "bun:test";
+import {
+  getContentSkipReason,
+  getPathSkipReason,
+  resolveSkipOptions,
+} from "../src/core/fileFilters.js";
+
+const options = resolveSkipOptions({});
+
+describe("getPathSkipReason", () => {
+  test("skips lockfiles, environment files and minified bundles", () => {
+    expect(getPathSkipReason("pnpm-lock.yaml", 10, options)).toBe("lockfile");
+    expect(getPathSkipReason(".env", 10, options)).toBe("environment file");
+    expect(getPathSkipReason(".env.production", 10, options)).toBe(
+      "environment file"
+    );
+    expect(getPathSkipReason("vendor.min.js", 10, options)).toBe("minified");
+    expect(getPathSkipReason("app.js.map", 10, options)).toBe("minified");
+  });
+
+  test("keeps example environment files and ordinary sources", () => {
+    expect(getPathSkipReason(".env.example", 10, options)).toBeUndefined();
+    expect(getPathSkipReason("env.ts", 10, options)).toBeUndefined();
+    expect(getPathSkipReason("minify.ts", 10, options)).toBeUndefined();
+  });
+
+  test("skips files over maxFileSizeKb", () => {
+    const small = resolveSkipOptions({ maxFileSizeKb: 1 });
+    expect(getPathSkipReason("data.ts", 1024, small)).toBeUndefined();
+    expect(getPathSkipReason("data.ts", 1025, small)).toBe("too large");
+  });
+});
+
+describe("getContentSkipReason", () => {
+  const check = (content: string | Buffer, config = {}) =>
+    getContentSkipReason(
+      typeof content === "string" ? Buffer.from(content) : content,
+      resolveSkipOptions(config)
+    );
+
+  test("skips binary data", () => {
+    expect(check(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01]))).toBe(
+      "binary"
+    );
+    expect(check(Buffer.from([0xff, 0xfe, 0xfd]))).toBe("binary");
+  });
+
+  test("skips generated code by banner or source map", () => {
+    expect(check("// @generated by protoc\nexport {};\n")).toBe("generated");
+    expect(check("/* DO NOT EDIT */\nexport {};\n")).toBe("generated");
+    expect(check("export {};\n//# sourceMappingURL=index.js.map\n")).toBe(
+      "generated"
+    );
+  });
+
+  test("only reads generator banners at the top of the file", () => {
+    const late = `${"// notes\n".repeat(200)}// This file is auto-generated\n`;
+    expect(check(late)).toBeUndefined();
+  });
+
+  test("skips files with lines over maxLineLength", () => {
+    const line = `export const data = "${"x".repeat(200)}";\n`;
+    expect(check(line, { maxLineLength: 100 })).toBe("minified");
+    expect(check(line)).toBeUndefined();
+  });
+});
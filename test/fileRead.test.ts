@@ -0,0 +1,104 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import { readCodebase } from "../src/core/fileRead.js";
+
+const initialDir = process.cwd();
+let projectDir: string;
+
+beforeEach(async () => {
+  projectDir = await mkdtemp(join(tmpdir(), "zen-doc-test-"));
+  process.chdir(projectDir);
+});
+
+afterEach(async () => {
+  process.chdir(initialDir);
+  await rm(projectDir, { recursive: true, force: true });
+});
+
+async function writeFiles(files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(projectDir, path)), { recursive: true });
+    await writeFile(join(projectDir, path), content);
+  }
+}
+
+async function readPaths(
+  options: Parameters<typeof readCodebase>[0] = {}
+): Promise<string[]> {
+  const files = await readCodebase(options);
+  return files.map((file) => file.slice(projectDir.length + 1)).sort();
+}
+
+describe("readCodebase ignore files", () => {
+  test("applies nested .gitignore files relative to their folder", async () => {
+    await writeFiles({
+      ".gitignore": "*.log\n",
+      "src/.gitignore": "generated/\n/local.ts\n",
+      "src/app.ts": "",
+      "src/local.ts": "",
+      "src/nested/local.ts": "",
+      "src/generated/schema.ts": "",
+      "debug.log": "",
+      "src/debug.log": "",
+    });
+
+    expect(await readPaths()).toEqual([
+      ".gitignore",
+      "src/.gitignore",
+      "src/app.ts",
+      "src/nested/local.ts",
+    ]);
+  });
+
+  test("lets deeper files re-include what a parent ignored", async () => {
+    await writeFiles({
+      ".gitignore": "*.gen.ts\n",
+      "src/.gitignore": "!keep.gen.ts\n",
+      "src/keep.gen.ts": "",
+      "src/drop.gen.ts": "",
+      "drop.gen.ts": "",
+    });
+
+    expect(
+      await readPaths({ exclude: [".gitignore", "**/.gitignore"] })
+    ).toEqual(["src/keep.gen.ts"]);
+  });
+
+  test("never re-includes files inside an ignored folder", async () => {
+    await writeFiles({
+      ".gitignore": "vendor/\n!vendor/keep.ts\n",
+      "vendor/keep.ts": "",
+      "app.ts": "",
+    });
+
+    expect(await readPaths({ exclude: [".gitignore"] })).toEqual(["app.ts"]);
+  });
+
+  test("layers .zendocignore over .gitignore in the same folder", async () => {
+    await writeFiles({
+      ".gitignore": "*.secret.ts\n",
+      ".zendocignore": "stories/\n!public.secret.ts\n",
+      "public.secret.ts": "",
+      "private.secret.ts": "",
+      "stories/button.ts": "",
+      "button.ts": "",
+    });
+
+    expect(
+      await readPaths({ exclude: [".gitignore", ".zendocignore"] })
+    ).toEqual(["button.ts", "public.secret.ts"]);
+  });
+
+  test("skips the default folders at any depth", async () => {
+    await writeFiles({
+      "node_modules/pkg/index.js": "",
+      "packages/web/node_modules/pkg/index.js": "",
+      "packages/web/dist/index.js": "",
+      "packages/web/index.ts": "",
+    });
+
+    expect(await readPaths()).toEqual(["packages/web/index.ts"]);
+  });
+});
@@ -0,0 +1,15 @@
+import type { User } from "../../../types/user";
+
+const users: User[] = [
+  { id: "1", name: "Ada Lovelace", email: "ada@example.com", role: "admin" },
+];
+
+export async function GET() {
+  return Response.json(users);
+}
+
+export async function POST(request: Request) {
+  const user = (await request.json()) as User;
+  users.push(user);
+  return Response.json(user, { status: 201 });
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { Button } from "../../components/Button";
+import { useUser } from "../../hooks/useUser";
+import { formatUser } from "../../lib/format";
+
+export default function UsersPage() {
+  const { user, loading } = useUser("1");
+
+  if (loading || !user) return <p>Loading...</p>;
+  return (
+    <main>
+      <h1>{formatUser(user)}</h1>
+      <Button label="Refresh" onClick={() => location.reload()} />
+    </main>
+  );
+}
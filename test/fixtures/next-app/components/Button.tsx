@@ -0,0 +1,16 @@
+interface ButtonProps {
+  label: string;
+  variant?: "primary" | "secondary";
+  onClick?: () => void;
+}
+
+/**
+ * Button used for every action in the app
+ */
+export function Button({ label, variant = "primary", onClick }: ButtonProps) {
+  return (
+    <button className={`button button-${variant}`} onClick={onClick}>
+      {label}
+    </button>
+  );
+}
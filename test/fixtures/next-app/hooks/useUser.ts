@@ -0,0 +1,17 @@
+import { useEffect, useState } from "react";
+import type { User } from "../types/user";
+
+/**
+ * Load a user by id from the API
+ */
+export function useUser(id: string) {
+  const [user, setUser] = useState<User | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/users?id=${id}`)
+      .then((response) => response.json())
+      .then(setUser);
+  }, [id]);
+
+  return { user, loading: user === null };
+}
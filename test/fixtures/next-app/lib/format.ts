@@ -0,0 +1,20 @@
+import type { User } from "../types/user";
+
+/**
+ * Name and email of a user, e.g. "Ada <ada@example.com>"
+ */
+export function formatUser(user: User): string {
+  return `${user.name} <${user.email}>`;
+}
+
+/**
+ * Initials shown in avatars
+ * @deprecated Use the Avatar component instead
+ */
+export function getInitials(name: string): string {
+  return name
+    .split(" ")
+    .map((part) => part[0])
+    .join("")
+    .toUpperCase();
+}
@@ -0,0 +1,11 @@
+/**
+ * A registered user of the app
+ */
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  role: Role;
+}
+
+export type Role = "admin" | "member";
@@ -0,0 +1,8 @@
+export default {
+  projectName: "Fixture App",
+  author: "Zen Doc",
+  outputDir: "docs",
+  useTranslation: false,
+  languages: [],
+  llm: { provider: "mock" },
+};
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { categorizeFiles } from "../src/core/fileRead.js";
+import { resolveFramework } from "../src/core/frameworks.js";
+
+describe("express adapter", () => {
+  const { adapter } = resolveFramework({ framework: "express" });
+
+  test("puts modules registering routes in the api category", () => {
+    const content = [
+      'import express from "express";',
+      "const router = express.Router();",
+      'router.get("/users", listUsers);',
+      'router.post("/users", auth, createUser);',
+      "export default router;",
+    ].join("\n");
+
+    expect(adapter.getCategory("src/users.ts", content)).toBe("api");
+    expect(
+      adapter.getHttpMethods({
+        relativePath: "src/users.ts",
+        content,
+        symbols: undefined,
+      })
+    ).toEqual(["GET", "POST"]);
+  });
+
+  test("leaves HTTP client and cache calls alone", () => {
+    const content = [
+      'import axios from "axios";',
+      'export const loadUsers = () => axios.get("/users");',
+      'export const login = (body) => fetcher.post("/login", body);',
+      'export const cached = () => cache.get("/x");',
+    ].join("\n");
+
+    expect(adapter.getCategory("src/api-client.ts", content)).toBeUndefined();
+  });
+});
+
+describe("generic adapter", () => {
+  test("gives every handler of an app/**/route.ts its own endpoint", async () => {
+    const initialDir = process.cwd();
+    const projectDir = await mkdtemp(join(tmpdir(), "zen-doc-test-"));
+    const routeFile = join(projectDir, "app", "users", "[id]", "route.ts");
+    await mkdir(join(routeFile, ".."), { recursive: true });
+    await writeFile(
+      routeFile,
+      [
+        "export async function GET() {}",
+        "export async function DELETE() {}",
+      ].join("\n")
+    );
+
+    try {
+      process.chdir(projectDir);
+      const { adapter } = resolveFramework({ framework: "generic" });
+      const files = await categorizeFiles([routeFile], { framework: adapter });
+
+      expect(
+        files.map((file) => [file.category, file.endpoint?.method, file.route])
+      ).toEqual([
+        ["api", "GET", "/users/:id"],
+        ["api", "DELETE", "/users/:id"],
+      ]);
+    } finally {
+      process.chdir(initialDir);
+      await rm(projectDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import {
+  cp,
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  readCodebase,
+  categorizeFiles,
+  generateDocs,
+} from "../src/core/index.js";
+import { configureCategories } from "../src/core/categories.js";
+import { resolveFramework } from "../src/core/frameworks.js";
+import { resolveSkipOptions } from "../src/core/fileFilters.js";
+import { loadConfig } from "../src/utils/loadConfig.js";
+
+const FIXTURE_DIR = join(import.meta.dir, "fixtures", "next-app");
+const initialDir = process.cwd();
+let projectDir: string;
+
+beforeAll(async () => {
+  // Outside any git repository, so no page depends on commit dates
+  projectDir = await mkdtemp(join(tmpdir(), "zen-doc-test-"));
+  await cp(FIXTURE_DIR, projectDir, { recursive: true });
+
+  // An existing Astro project keeps generate from running `npm create astro`
+  await mkdir(join(projectDir, "docs"), { recursive: true });
+  await writeFile(join(projectDir, "docs", "package.json"), "{}\n");
+  await writeFile(
+    join(projectDir, "docs", "astro.config.mjs"),
+    "export default {};\n"
+  );
+
+  process.env.SOURCE_DATE_EPOCH = "0";
+  process.chdir(projectDir);
+});
+
+afterAll(async () => {
+  process.chdir(initialDir);
+  delete process.env.SOURCE_DATE_EPOCH;
+  await rm(projectDir, { recursive: true, force: true });
+});
+
+test("mock generate produces the same site every run", async () => {
+  // Same steps as the generate command
+  const config = await loadConfig();
+  const files = await readCodebase({ exclude: [config.outputDir] });
+  configureCategories(config);
+  const { adapter: framework } = resolveFramework(config);
+  const fileInfos = await categorizeFiles(files, {
+    framework,
+    skip: resolveSkipOptions(config),
+  });
+  await generateDocs(fileInfos, { provider: "mock", cache: false });
+
+  const site = await readTree(join(projectDir, "docs"));
+  expect(Object.keys(site)).toContain("src/content/docs/index.mdx");
+  expect(site).toMatchSnapshot();
+}, 60_000);
+
+// Every generated file by path relative to the site, in a stable order
+async function readTree(dir: string): Promise<Record<string, string>> {
+  const entries = await readdir(dir, { recursive: true, withFileTypes: true });
+  const paths = entries
+    .filter((entry) => entry.isFile())
+    .map((entry) =>
+      join(entry.parentPath, entry.name)
+        .slice(dir.length + 1)
+        .replace(/\\/g, "/")
+    )
+    .sort();
+
+  const tree: Record<string, string> = {};
+  for (const path of paths) {
+    tree[path] = await readFile(join(dir, path), "utf-8");
+  }
+  return tree;
+}
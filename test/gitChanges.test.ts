@@ -0,0 +1,113 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { execFileSync } from "child_process";
+import { mkdir, mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { dirname, join } from "path";
+import {
+  filterChanges,
+  getChangedFiles,
+  getRemovedPaths,
+  getUpdatedPaths,
+} from "../src/core/gitChanges.js";
+
+const initialDir = process.cwd();
+let repoDir: string;
+
+function git(...args: string[]): void {
+  execFileSync(
+    "git",
+    ["-c", "user.name=Test", "-c", "user.email=test@example.com", ...args],
+    { cwd: repoDir, stdio: "ignore" }
+  );
+}
+
+async function writeFiles(files: Record<string, string>): Promise<void> {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(dirname(join(repoDir, path)), { recursive: true });
+    await writeFile(join(repoDir, path), content);
+  }
+}
+
+beforeAll(async () => {
+  repoDir = await mkdtemp(join(tmpdir(), "zen-doc-test-"));
+  git("init", "-q");
+  await writeFiles({
+    "src/keep.ts": "export const keep = 1;\n",
+    "src/edit.ts": "export const edit = 1;\n",
+    "src/remove.ts": "export const remove = 1;\n",
+    "src/old-name.ts": "export const moved = 'same content';\n",
+    "docs/src/content/docs/lib/old.mdx": "# Old\n",
+  });
+  git("add", "-A");
+  git("commit", "-q", "-m", "Initial");
+  git("tag", "v1");
+
+  // Changes since v1, some committed and some only in the working tree
+  await writeFiles({ "src/edit.ts": "export const edit = 2;\n" });
+  git("rm", "-q", "src/remove.ts", "docs/src/content/docs/lib/old.mdx");
+  git("mv", "src/old-name.ts", "src/new-name.ts");
+  git("commit", "-q", "-am", "Change");
+  await writeFiles({
+    "src/added.ts": "export const added = 1;\n",
+    "dist/bundle.js": "console.log(1);\n",
+  });
+
+  process.chdir(repoDir);
+});
+
+afterAll(async () => {
+  process.chdir(initialDir);
+  await rm(repoDir, { recursive: true, force: true });
+});
+
+describe("getChangedFiles", () => {
+  test("lists commits and working tree changes since a ref", () => {
+    const changes = getChangedFiles("v1");
+
+    expect(changes.modified).toEqual(["src/edit.ts"]);
+    expect(changes.deleted.sort()).toEqual([
+      "docs/src/content/docs/lib/old.mdx",
+      "src/remove.ts",
+    ]);
+    expect(changes.renamed).toEqual([
+      { from: "src/old-name.ts", to: "src/new-name.ts" },
+    ]);
+    expect(changes.added.sort()).toEqual(["dist/bundle.js", "src/added.ts"]);
+  });
+
+  test("rejects unknown refs", () => {
+    expect(() => getChangedFiles("no-such-ref")).toThrow(
+      'Unknown git ref "no-such-ref"'
+    );
+  });
+});
+
+describe("filterChanges", () => {
+  test("keeps only read files and removals outside generated folders", () => {
+    const readPaths = new Set([
+      "src/keep.ts",
+      "src/edit.ts",
+      "src/new-name.ts",
+      "src/added.ts",
+    ]);
+    const changes = filterChanges(getChangedFiles("v1"), readPaths, ["docs"]);
+
+    expect([...getUpdatedPaths(changes)].sort()).toEqual([
+      "src/added.ts",
+      "src/edit.ts",
+      "src/new-name.ts",
+    ]);
+    expect([...getRemovedPaths(changes)].sort()).toEqual([
+      "src/old-name.ts",
+      "src/remove.ts",
+    ]);
+  });
+
+  test("treats a file renamed out of the read set as removed", () => {
+    const readPaths = new Set(["src/edit.ts", "src/added.ts"]);
+    const changes = filterChanges(getChangedFiles("v1"), readPaths, ["docs"]);
+
+    expect(changes.renamed).toEqual([]);
+    expect(changes.deleted).toContain("src/old-name.ts");
+  });
+});
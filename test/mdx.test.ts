@@ -0,0 +1,77 @@
+import { describe, expect, test } from "bun:test";
+import { findMdxIssues, repairMdx } from "../src/core/mdx.js";
+
+describe("repairMdx", () => {
+  test("escapes stray tags and braces in prose", () => {
+    expect(repairMdx("Returns a Promise<User> or {id: 1}.")).toBe(
+      "Returns a Promise&lt;User> or \\{id: 1\\}."
+    );
+    expect(repairMdx("a < b and c > d")).toBe("a &lt; b and c > d");
+  });
+
+  test("leaves code spans and code blocks alone", () => {
+    const content = [
+      "Use `<Button>` and `{props}` inline.",
+      "",
+      "```tsx",
+      "const a = <T,>(x: T) => <div>{x}</div>;",
+      "```",
+    ].join("\n");
+    expect(repairMdx(content)).toBe(content);
+  });
+
+  test("closes unterminated code fences", () => {
+    expect(repairMdx("```ts\nconst a = {\n")).toBe("```ts\nconst a = {\n\n```");
+  });
+
+  test("keeps HTML but makes void elements self-closing", () => {
+    expect(repairMdx('Line one<br>\nImage <img src="a.png">')).toBe(
+      'Line one<br />\nImage <img src="a.png" />'
+    );
+    expect(
+      repairMdx(
+        "<details>\n<summary>More</summary>\n\nHidden {text}\n</details>"
+      )
+    ).toBe(
+      "<details>\n<summary>More</summary>\n\nHidden \\{text\\}\n</details>"
+    );
+  });
+
+  test("drops HTML comments and rewrites autolinks", () => {
+    expect(repairMdx("<!-- note -->\nText")).toBe("Text");
+    expect(repairMdx("See <https://example.com>.")).toBe(
+      "See [https://example.com](https://example.com)."
+    );
+  });
+
+  test("keeps prose starting with import or export out of ESM", () => {
+    expect(repairMdx("import x from 'y' is how you use it")).toBe(
+      "`import` x from 'y' is how you use it"
+    );
+  });
+
+  test("produces pages the MDX parser accepts", async () => {
+    const broken = [
+      "# Reference",
+      "",
+      "Returns Map<string, {count: number}> <br>",
+      "<!-- TODO -->",
+      "export default function Page() renders <Layout>",
+      "",
+      "```ts",
+      "const a = 1;",
+    ].join("\n");
+
+    expect(await findMdxIssues(broken)).not.toEqual([]);
+    expect(await findMdxIssues(repairMdx(broken))).toEqual([]);
+  });
+});
+
+describe("findMdxIssues", () => {
+  test("reports lines of the whole page, frontmatter included", async () => {
+    const issues = await findMdxIssues("---\ntitle: x\n---\n\nText {broken\n");
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].line).toBe(5);
+  });
+});
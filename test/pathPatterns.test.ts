@@ -0,0 +1,20 @@
+import { expect, test } from "bun:test";
+import { createPathMatcher } from "../src/core/pathPatterns.js";
+
+test("matches config globs, folders and dot files alike", () => {
+  const matches = createPathMatcher([
+    "src/legacy/",
+    "**/*.test.ts",
+    "scripts/*.{js,mjs}",
+    ".storybook/**",
+  ]);
+
+  expect(matches("src/legacy/old/api.ts")).toBe(true);
+  expect(matches("src/utils/date.test.ts")).toBe(true);
+  expect(matches("scripts/build.mjs")).toBe(true);
+  expect(matches(".storybook/main.ts")).toBe(true);
+
+  expect(matches("src/legacyish.ts")).toBe(false);
+  expect(matches("scripts/nested/build.js")).toBe(false);
+  expect(matches("src/utils/date.ts")).toBe(false);
+});
@@ -0,0 +1,118 @@
+import { describe, expect, test } from "bun:test";
+import type { FileInfo } from "../src/core/fileRead.js";
+import { extractEndpoints } from "../src/core/routeExtraction.js";
+
+function sourceFiles(files: Record<string, string>): FileInfo[] {
+  return Object.entries(files).map(([relativePath, content]) => ({
+    path: `/project/${relativePath}`,
+    relativePath,
+    fileName: relativePath.split("/").pop()!,
+    extension: relativePath.split(".").pop()!,
+    category: "api",
+    content,
+  }));
+}
+
+// "GET /path [middleware] handler" per endpoint, by file
+function summarize(files: FileInfo[]): Record<string, string[]> {
+  const summary: Record<string, string[]> = {};
+  for (const [path, endpoints] of extractEndpoints(files)) {
+    summary[path] = endpoints.map((endpoint) =>
+      [
+        endpoint.method,
+        endpoint.path,
+        `[${endpoint.middleware.join(", ")}]`,
+        endpoint.handler,
+      ].join(" ")
+    );
+  }
+  return summary;
+}
+
+describe("extractEndpoints", () => {
+  test("resolves Express routers mounted from other files", () => {
+    const files = sourceFiles({
+      "src/app.js": [
+        'const express = require("express");',
+        'const users = require("./routes/users");',
+        "const app = express();",
+        "app.use(express.json());",
+        'app.use("/api/users", requireAuth, users);',
+        'app.get("/health", (req, res) => res.send("ok"));',
+      ].join("\n"),
+      "src/routes/users.js": [
+        'const router = require("express").Router();',
+        'router.get("/:id", loadUser, getUser);',
+        'router.route("/").get(listUsers).post(createUser);',
+        "module.exports = router;",
+      ].join("\n"),
+    });
+
+    expect(summarize(files)).toEqual({
+      "src/app.js": ["GET /health [express.json()] "],
+      "src/routes/users.js": [
+        "GET /api/users/:id [express.json(), requireAuth, loadUser] getUser",
+        "GET /api/users [express.json(), requireAuth] listUsers",
+        "POST /api/users [express.json(), requireAuth] createUser",
+      ],
+    });
+  });
+
+  test("applies Fastify plugin prefixes and route hooks", () => {
+    const files = sourceFiles({
+      "src/server.ts": [
+        'import Fastify from "fastify";',
+        'import { items } from "./items";',
+        "const fastify = Fastify();",
+        'fastify.register(items, { prefix: "/v1" });',
+      ].join("\n"),
+      "src/items.ts": [
+        "export async function items(app) {",
+        '  app.get("/items", { preHandler: [authenticate] }, listItems);',
+        '  app.delete("/items/:id", removeItem);',
+        "}",
+      ].join("\n"),
+    });
+
+    expect(summarize(files)["src/items.ts"]).toEqual([
+      "GET /v1/items [authenticate] listItems",
+      "DELETE /v1/items/:id [] removeItem",
+    ]);
+  });
+
+  test("joins Hono base paths and app.route() prefixes", () => {
+    const files = sourceFiles({
+      "src/index.ts": [
+        'import { Hono } from "hono";',
+        'import books from "./books";',
+        'const app = new Hono().basePath("/api");',
+        'app.route("/books", books);',
+        "export default app;",
+      ].join("\n"),
+      "src/books.ts": [
+        'import { Hono } from "hono";',
+        "const books = new Hono();",
+        'books.get("/", (c) => c.json([]));',
+        'books.post("/", createBook);',
+        "export default books;",
+      ].join("\n"),
+    });
+
+    expect(summarize(files)["src/books.ts"]).toEqual([
+      "GET /api/books [] ",
+      "POST /api/books [] createBook",
+    ]);
+  });
+
+  test("ignores HTTP clients and settings lookups", () => {
+    const files = sourceFiles({
+      "src/client.ts": [
+        'import axios from "axios";',
+        'export const load = () => axios.get("/users", config);',
+        'export const title = app.get("title");',
+      ].join("\n"),
+    });
+
+    expect(extractEndpoints(files).size).toBe(0);
+  });
+});
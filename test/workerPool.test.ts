@@ -0,0 +1,210 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { APICallError, RetryError } from "ai";
+import {
+  TaskTimeoutError,
+  WorkerPool,
+  createPooledProvider,
+  isRetryableError,
+} from "../src/core/workerPool.js";
+import { createProvider } from "../src/core/llm.js";
+
+const options = {
+  concurrency: 2,
+  requestsPerMinute: 0,
+  maxRetries: 2,
+  timeoutMs: 0,
+  retryDelayMs: 1,
+};
+
+function apiError(statusCode: number, responseHeaders = {}): APICallError {
+  return new APICallError({
+    message: `Request failed with ${statusCode}`,
+    url: "https://example.com",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders,
+  });
+}
+
+describe("isRetryableError", () => {
+  test("retries rate limits, server errors, timeouts and dropped connections", () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(503))).toBe(true);
+    expect(isRetryableError(new TaskTimeoutError(10))).toBe(true);
+    expect(
+      isRetryableError(
+        new TypeError("fetch failed", { cause: { code: "ECONNRESET" } })
+      )
+    ).toBe(true);
+  });
+
+  test("does not retry client errors", () => {
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(new Error("bad prompt"))).toBe(false);
+  });
+
+  test("looks inside the AI SDK's RetryError", () => {
+    const error = new RetryError({
+      message: "Failed after 3 attempts",
+      reason: "maxRetriesExceeded",
+      errors: [apiError(429)],
+    });
+    expect(isRetryableError(error)).toBe(true);
+  });
+});
+
+describe("WorkerPool", () => {
+  test("retries a 429 and returns the next answer", async () => {
+    const pool = new WorkerPool(options);
+    let attempts = 0;
+
+    const result = await pool.run(async () => {
+      attempts++;
+      if (attempts === 1) throw apiError(429);
+      return "ok";
+    });
+
+    expect(result).toBe("ok");
+    expect(attempts).toBe(2);
+  });
+
+  test("gives up after maxRetries", async () => {
+    const pool = new WorkerPool(options);
+    let attempts = 0;
+
+    const run = pool.run(async () => {
+      attempts++;
+      throw apiError(500);
+    });
+
+    await expect(run).rejects.toThrow("Request failed with 500");
+    expect(attempts).toBe(3);
+  });
+
+  test("does not retry errors that won't go away", async () => {
+    const pool = new WorkerPool(options);
+    let attempts = 0;
+
+    const run = pool.run(async () => {
+      attempts++;
+      throw apiError(401);
+    });
+
+    await expect(run).rejects.toThrow();
+    expect(attempts).toBe(1);
+  });
+
+  test("aborts tasks that exceed the timeout", async () => {
+    const pool = new WorkerPool({ ...options, maxRetries: 0, timeoutMs: 20 });
+    let aborted = false;
+
+    const run = pool.run(
+      (signal) =>
+        new Promise((resolve) => {
+          signal.addEventListener("abort", () => {
+            aborted = true;
+            resolve("late");
+          });
+        })
+    );
+
+    await expect(run).rejects.toBeInstanceOf(TaskTimeoutError);
+    expect(aborted).toBe(true);
+  });
+
+  test("keeps at most `concurrency` tasks in flight", async () => {
+    const pool = new WorkerPool(options);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all(
+      Array.from({ length: 6 }, () =>
+        pool.run(async () => {
+          active++;
+          peak = Math.max(peak, active);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          active--;
+        })
+      )
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  test("holds requests over the per-minute limit", async () => {
+    const pool = new WorkerPool({ ...options, requestsPerMinute: 2 });
+    let started = 0;
+
+    // The third request waits for the 60 second window; it is never awaited
+    for (let i = 0; i < 3; i++) {
+      pool.run(async () => {
+        started++;
+      });
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(started).toBe(2);
+  });
+});
+
+describe("Google provider", () => {
+  const originalFetch = globalThis.fetch;
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  test("fails a 429 after one request, as an error the pool retries", async () => {
+    let requests = 0;
+    globalThis.fetch = (async () => {
+      requests++;
+      return new Response(JSON.stringify({ error: { message: "Slow down" } }), {
+        status: 429,
+        headers: { "content-type": "application/json", "retry-after": "1" },
+      });
+    }) as unknown as typeof fetch;
+
+    const provider = createProvider({
+      llm: { provider: "google", apiKey: "test-key" },
+    });
+    const error = await provider
+      .generate({ prompt: "Document this" })
+      .catch((error: unknown) => error);
+
+    expect(requests).toBe(1);
+    expect(APICallError.isInstance(error)).toBe(true);
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  test("leaves 429 retries to the pool", async () => {
+    const statuses = [429, 200];
+    let requests = 0;
+    globalThis.fetch = (async () => {
+      const status = statuses[requests++];
+      return status === 429
+        ? new Response(JSON.stringify({ error: { message: "Slow down" } }), {
+            status,
+            headers: { "content-type": "application/json" },
+          })
+        : Response.json({
+            candidates: [
+              {
+                content: { role: "model", parts: [{ text: "Generated" }] },
+                finishReason: "STOP",
+              },
+            ],
+          });
+    }) as unknown as typeof fetch;
+
+    const provider = createProvider({
+      llm: { provider: "google", apiKey: "test-key" },
+    });
+    const pooled = createPooledProvider(provider, new WorkerPool(options));
+
+    expect(await pooled.generate({ prompt: "Document this" })).toBe(
+      "Generated"
+    );
+    // One failed attempt and one retry by the pool, none inside the SDK
+    expect(requests).toBe(2);
+  });
+});